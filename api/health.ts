@@ -1,10 +1,3 @@
-import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createVercelHandler } from '../src/server/vercel.js';
 
-export default function handler(req: VercelRequest, res: VercelResponse) {
-  res.json({
-    status: 'ok',
-    timestamp: new Date().toISOString(),
-    hasAnthropicKey: !!process.env.ANTHROPIC_API_KEY,
-    hasFirecrawlKey: !!process.env.FIRECRAWL_API_KEY,
-  });
-}
+export default createVercelHandler('/health');
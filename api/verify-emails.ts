@@ -0,0 +1,3 @@
+import { createVercelHandler } from '../src/server/vercel.js';
+
+export default createVercelHandler('/verify-emails');
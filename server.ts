@@ -0,0 +1,31 @@
+/**
+ * Backend API server for Innov8ai Cold Email
+ * Proxies requests to Anthropic and Firecrawl APIs to avoid CORS issues.
+ * Serves the same handlers as the Vercel functions in api/ (see src/server/routes.ts).
+ */
+
+import 'dotenv/config';
+import express, { type Request, type Response } from 'express';
+import cors from 'cors';
+import { routes } from './src/server/routes.js';
+
+const app = express();
+app.use(cors());
+app.use(express.json({ limit: '10mb' }));
+
+for (const route of routes) {
+  const register = route.method === 'GET' ? app.get.bind(app) : app.post.bind(app);
+  register(`/api${route.path}`, async (req: Request, res: Response) => {
+    const { status, body } = await route.handler((req.body || {}) as never);
+    res.status(status).json(body);
+  });
+}
+
+const PORT = process.env.PORT || 3001;
+app.listen(PORT, () => {
+  console.log(`API server running on http://localhost:${PORT}`);
+  console.log('Endpoints:');
+  for (const route of routes) {
+    console.log(`  ${route.method.padEnd(4)} /api${route.path}`);
+  }
+});
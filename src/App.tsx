@@ -11,43 +11,82 @@ import UsageMonitor from './frontend/components/UsageMonitor';
 import APISetup from './frontend/components/APISetup';
 import KnowledgeBase from './frontend/components/KnowledgeBase';
 import CampaignBuilder from './frontend/components/CampaignBuilder';
+import ResumeSession from './frontend/components/ResumeSession';
 import { APIUsageProvider, useAPIUsage } from './frontend/hooks/useAPIUsage';
 import {
   initEnrichment,
   findEmailsForLeads,
   generateIcebreakersForLeads,
+  generateHooksForLeads,
   checkServerEnvVars,
   hasServerEnvVars,
 } from './api/enrichment';
-import type { EnrichedLead, EnrichmentConfig, KnowledgeBase as KnowledgeBaseType, Campaign } from './agent/types';
-
-export type AppStage = 'loading' | 'setup' | 'upload' | 'knowledge_base' | 'campaign_builder' | 'configure' | 'finding_emails' | 'review' | 'enriching' | 'complete';
+import {
+  saveSession,
+  loadSession,
+  clearSession,
+  saveDossier,
+  loadDossiers,
+  type LeadSession,
+} from './utils/sessionStore';
+import { getKnowledgeBaseById, getCampaignById } from './utils/localStorage';
+import type { EnrichedLead, CampaignLead, EnrichmentConfig, KnowledgeBase as KnowledgeBaseType, Campaign, LeadDossier } from './agent/types';
+import type { AppStage } from './types';
+
+const SESSION_SAVE_INTERVAL_MS = 2000;
 
 const defaultConfig: EnrichmentConfig = {
   maxConcurrency: 3,
+  scrapeProvider: 'firecrawl',
+  maxCrawlPages: 4,
+  maxCrawlDepth: 1,
+  firecrawlConcurrency: 2,
+  anthropicConcurrency: 4,
   retryAttempts: 2,
   includeIcebreaker: true,
   icebreakerTone: 'professional',
+  icebreakerUseKnowledgeBase: true,
+  icebreakerMaxRegenerations: 2,
+  extractCompanyProfile: false,
+  targetRoles: ['Founder', 'CEO', 'Managing Director', 'Head of Marketing', 'Operations Director'],
 };
 
+// Guessed or bouncing addresses wait for the user to opt in
+function isAutoSelectable(lead: EnrichedLead): boolean {
+  return !!lead.email
+    && lead.emailSource !== 'inferred'
+    && lead.deliverability?.status !== 'undeliverable';
+}
+
 function AppContent() {
   // Check for stored API keys (fallback for local dev)
   const storedAnthropicKey = localStorage.getItem('innov8ai_anthropic_key') || '';
   const storedFirecrawlKey = localStorage.getItem('innov8ai_firecrawl_key') || '';
-  const hasStoredKeys = storedAnthropicKey && storedFirecrawlKey;
+  const hasStoredKeys = !!storedAnthropicKey;  // Firecrawl is optional with the built-in scraper
 
   const [stage, setStage] = useState<AppStage>('loading');
-  const [leads, setLeads] = useState<EnrichedLead[]>([]);
+  const [leads, setLeads] = useState<CampaignLead[]>([]);
   const [selectedLeads, setSelectedLeads] = useState<Set<number>>(new Set());
   const [config, setConfig] = useState<EnrichmentConfig>(defaultConfig);
   const [processingIndex, setProcessingIndex] = useState(0);
   const [error, setError] = useState<string | null>(null);
   const [selectedKnowledgeBase, setSelectedKnowledgeBase] = useState<KnowledgeBaseType | null>(null);
-  const [_campaign, setCampaign] = useState<Campaign | null>(null); // Will be used for export
+  const [campaign, setCampaign] = useState<Campaign | null>(null);
+  const [isPaused, setIsPaused] = useState(false);
+  const [savedSession, setSavedSession] = useState<LeadSession | null>(null);
   const { addUsage } = useAPIUsage();
 
-  // Store scraped content for icebreaker generation
-  const scrapedContentRef = useRef<Map<string, string>>(new Map());
+  // Controller for the in-flight run, and whether it was stopped by pause or cancel -
+  // or discarded by a reset or key change, when the run must leave the stage alone
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const stopModeRef = useRef<'pause' | 'cancel' | 'discard' | null>(null);
+
+  // Crawled pages per lead, reused for icebreaker and hook generation
+  const dossiersRef = useRef<Map<string, LeadDossier>>(new Map());
+
+  // Latest session snapshot, written to IndexedDB at most every SESSION_SAVE_INTERVAL_MS
+  const sessionSnapshotRef = useRef<Omit<LeadSession, 'updatedAt'> | null>(null);
+  const sessionSaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Check for server env vars on startup
   useEffect(() => {
@@ -60,21 +99,82 @@ function AppContent() {
       } else if (hasStoredKeys) {
         // Fall back to stored keys (local development)
         initEnrichment(storedAnthropicKey, storedFirecrawlKey);
+        if (!storedFirecrawlKey && !health.hasFirecrawlKey) {
+          setConfig(c => ({ ...c, scrapeProvider: 'native' }));
+        }
         setStage('upload');
       } else {
         // Need to show setup screen
         setStage('setup');
       }
+
+      // Offer to resume a session interrupted by a reload
+      setSavedSession(await loadSession());
     }
     checkEnvVars();
   }, [hasStoredKeys, storedAnthropicKey, storedFirecrawlKey]);
 
+  // Snapshot the session whenever leads or progress change (throttled, not debounced,
+  // so a long run still gets saved while leads update continuously)
+  useEffect(() => {
+    if (leads.length === 0 || stage === 'loading' || stage === 'setup') {
+      sessionSnapshotRef.current = null;
+      return;
+    }
+
+    sessionSnapshotRef.current = {
+      stage,
+      leads,
+      selectedLeads: Array.from(selectedLeads),
+      config,
+      knowledgeBaseId: selectedKnowledgeBase?.id,
+      campaignId: campaign?.id,
+    };
+
+    if (!sessionSaveTimerRef.current) {
+      sessionSaveTimerRef.current = setTimeout(() => {
+        sessionSaveTimerRef.current = null;
+        if (sessionSnapshotRef.current) saveSession(sessionSnapshotRef.current);
+      }, SESSION_SAVE_INTERVAL_MS);
+    }
+  }, [stage, leads, selectedLeads, config, selectedKnowledgeBase, campaign]);
+
+  const handleResumeSession = useCallback(async () => {
+    if (!savedSession) return;
+
+    dossiersRef.current = await loadDossiers();
+    // Anything mid-flight when the page closed needs processing again
+    setLeads(savedSession.leads.map(l =>
+      l.enrichmentStatus === 'processing' ? { ...l, enrichmentStatus: 'pending' } : l
+    ));
+    setSelectedLeads(new Set(savedSession.selectedLeads));
+    setConfig({ ...defaultConfig, ...savedSession.config });
+    setSelectedKnowledgeBase(savedSession.knowledgeBaseId ? getKnowledgeBaseById(savedSession.knowledgeBaseId) : null);
+    setCampaign(savedSession.campaignId ? getCampaignById(savedSession.campaignId) : null);
+
+    // An interrupted run comes back paused so it can be resumed from the first pending lead
+    const wasRunning = savedSession.stage === 'finding_emails' || savedSession.stage === 'enriching';
+    setIsPaused(wasRunning);
+    setStage(savedSession.stage);
+    setSavedSession(null);
+  }, [savedSession]);
+
+  const handleDiscardSession = useCallback(() => {
+    clearSession();
+    setSavedSession(null);
+  }, []);
+
   const handleAPISetup = useCallback((anthropicKey: string, firecrawlKey: string) => {
     initEnrichment(anthropicKey, firecrawlKey);
+    setConfig(c => ({ ...c, scrapeProvider: firecrawlKey ? 'firecrawl' : 'native' }));
     setStage('upload');
   }, []);
 
   const handleFileUpload = useCallback((parsedLeads: EnrichedLead[]) => {
+    // A new upload replaces whatever session was saved before
+    clearSession();
+    setSavedSession(null);
+    dossiersRef.current.clear();
     setLeads(parsedLeads);
     setError(null);
     setStage('knowledge_base');
@@ -100,21 +200,37 @@ function AppContent() {
   }, []);
 
   // Step 1: Find Emails using real APIs
-  const handleFindEmails = useCallback(async () => {
+  // A fresh run starts every lead over; on resume, only leads still pending are processed
+  // and crawled dossiers are kept
+  const runFindEmails = useCallback(async (resume: boolean) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    stopModeRef.current = null;
+    setIsPaused(false);
     setStage('finding_emails');
-    setProcessingIndex(0);
     setError(null);
-    scrapedContentRef.current.clear();
+
+    const runLeads = resume
+      ? leads
+      : leads.map(lead => ({ ...lead, enrichmentStatus: 'pending' as const, errorMessage: undefined }));
+    if (!resume) {
+      dossiersRef.current.clear();
+      setLeads(runLeads);
+    }
+
+    // Leads finished by an earlier (paused) run count towards progress
+    const alreadyDone = runLeads.filter(l => l.domainValidation?.isValid && l.enrichmentStatus !== 'pending').length;
+    setProcessingIndex(alreadyDone);
 
     try {
       const results = await findEmailsForLeads(
-        leads,
+        runLeads,
         config,
         (progress, result) => {
-          setProcessingIndex(progress.currentIndex);
+          setProcessingIndex(alreadyDone + progress.currentIndex);
 
-          // Track API usage
-          if (result.emailResult) {
+          // Track API usage (local regex matches cost nothing unless a profile call was made)
+          if (result.emailResult && (result.emailResult.method !== 'local' || result.emailResult.usedModel)) {
             addUsage({
               inputTokens: result.emailResult.inputTokens,
               outputTokens: result.emailResult.outputTokens,
@@ -123,9 +239,10 @@ function AppContent() {
             });
           }
 
-          // Store scraped content for later icebreaker generation
-          if (result.scrapeResult?.markdown) {
-            scrapedContentRef.current.set(result.lead.website, result.scrapeResult.markdown);
+          // Store the crawled pages for later icebreaker generation
+          if (result.crawlResult?.success && stopModeRef.current !== 'discard') {
+            dossiersRef.current.set(result.lead.website, result.crawlResult.dossier);
+            saveDossier(result.crawlResult.dossier);
           }
 
           // Update lead in state
@@ -137,40 +254,71 @@ function AppContent() {
             }
             return updated;
           });
-        }
+        },
+        controller.signal
       );
 
-      // Auto-select all leads that have emails
+      if (controller.signal.aborted && stopModeRef.current === 'discard') return;
+      if (controller.signal.aborted && stopModeRef.current === 'pause') {
+        setIsPaused(true);
+        return;
+      }
+
+      // Auto-select all leads that have emails (including those found before a pause)
       const leadsWithEmails = new Set<number>();
-      results.forEach((result, _i) => {
-        const index = leads.findIndex(l => l.website === result.lead.website);
-        if (index !== -1 && result.lead.email) {
+      runLeads.forEach((lead, index) => {
+        const result = results.find(r => r.lead.website === lead.website);
+        if (isAutoSelectable(result ? result.lead : lead)) {
           leadsWithEmails.add(index);
         }
       });
       setSelectedLeads(leadsWithEmails);
       setStage('review');
     } catch (err) {
+      if (stopModeRef.current === 'discard') return;
       setError(err instanceof Error ? err.message : 'Failed to find emails');
       setStage('configure');
+    } finally {
+      abortControllerRef.current = null;
     }
   }, [leads, config, addUsage]);
 
-  // Step 2: Generate Icebreakers for selected leads
+  const handleFindEmails = useCallback(() => runFindEmails(false), [runFindEmails]);
+
+  // Step 2: Generate Icebreakers (and per-lead campaign hooks) for selected leads
+  // Leads that already have an icebreaker or rendered emails are skipped, so this also resumes
   const handleGenerateIcebreakers = useCallback(async () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    stopModeRef.current = null;
+    setIsPaused(false);
     setStage('enriching');
-    setProcessingIndex(0);
     setError(null);
 
     const selectedLeadsList = Array.from(selectedLeads).map(i => leads[i]);
+    const needingIcebreakers = selectedLeadsList.filter(l => !l.icebreaker);
+    const needingHooks = selectedLeadsList.filter(l => !l.emails);
+
+    const handleStopped = () => {
+      if (stopModeRef.current === 'discard') return;
+      if (stopModeRef.current === 'pause') {
+        setIsPaused(true);
+      } else {
+        setStage('review');
+      }
+    };
 
     try {
+      const icebreakersDone = selectedLeadsList.length - needingIcebreakers.length;
+      setProcessingIndex(icebreakersDone);
+
       await generateIcebreakersForLeads(
-        selectedLeadsList,
-        scrapedContentRef.current,
+        needingIcebreakers,
+        dossiersRef.current,
+        selectedKnowledgeBase,
         config,
         (progress, result) => {
-          setProcessingIndex(progress.currentIndex);
+          setProcessingIndex(icebreakersDone + progress.currentIndex);
 
           // Track API usage
           if (result.icebreakerResult) {
@@ -190,19 +338,105 @@ function AppContent() {
               updated[index] = {
                 ...updated[index],
                 icebreaker: result.lead.icebreaker,
+                icebreakerRationale: result.lead.icebreakerRationale,
+                icebreakerReview: result.lead.icebreakerReview,
+                attempts: result.lead.attempts,
               };
             }
             return updated;
           });
-        }
+        },
+        controller.signal
       );
 
+      if (controller.signal.aborted) return handleStopped();
+
+      // Step 2b: Generate {{hook}} variants and render the sequence for each lead
+      if (campaign) {
+        const hooksDone = selectedLeadsList.length - needingHooks.length;
+        setProcessingIndex(hooksDone);
+
+        await generateHooksForLeads(
+          needingHooks,
+          dossiersRef.current,
+          campaign,
+          selectedKnowledgeBase,
+          config,
+          (progress, result) => {
+            setProcessingIndex(hooksDone + progress.currentIndex);
+
+            // Track API usage
+            if (result.hookResult) {
+              addUsage({
+                inputTokens: result.hookResult.inputTokens,
+                outputTokens: result.hookResult.outputTokens,
+                model: 'claude-sonnet-4-20250514',
+                operation: 'hook_generation',
+              });
+            }
+
+            // Update lead in state
+            setLeads(prev => {
+              const updated = [...prev];
+              const index = updated.findIndex(l => l.website === result.lead.website);
+              if (index !== -1) {
+                updated[index] = {
+                  ...updated[index],
+                  campaignId: result.lead.campaignId,
+                  hook: result.lead.hook,
+                  emails: result.lead.emails,
+                };
+              }
+              return updated;
+            });
+          },
+          controller.signal
+        );
+
+        if (controller.signal.aborted) return handleStopped();
+      }
+
       setStage('complete');
     } catch (err) {
+      if (stopModeRef.current === 'discard') return;
       setError(err instanceof Error ? err.message : 'Failed to generate icebreakers');
       setStage('review');
+    } finally {
+      abortControllerRef.current = null;
     }
-  }, [leads, selectedLeads, config, addUsage]);
+  }, [leads, selectedLeads, config, campaign, selectedKnowledgeBase, addUsage]);
+
+  // Pause stops the run but stays on the stage; cancel ends the stage with results so far
+  const handlePause = useCallback(() => {
+    stopModeRef.current = 'pause';
+    abortControllerRef.current?.abort();
+  }, []);
+
+  const handleCancel = useCallback(() => {
+    if (isPaused) {
+      // Nothing in flight - just leave the stage
+      setIsPaused(false);
+      if (stage === 'finding_emails') {
+        const leadsWithEmails = new Set<number>();
+        leads.forEach((lead, index) => {
+          if (isAutoSelectable(lead)) leadsWithEmails.add(index);
+        });
+        setSelectedLeads(leadsWithEmails);
+      }
+      setStage('review');
+      return;
+    }
+    stopModeRef.current = 'cancel';
+    abortControllerRef.current?.abort();
+  }, [isPaused, stage, leads]);
+
+  const handleResume = useCallback(() => {
+    if (stage === 'finding_emails') {
+      runFindEmails(true);
+    } else if (stage === 'enriching') {
+      handleGenerateIcebreakers();
+    }
+  }, [stage, runFindEmails, handleGenerateIcebreakers]);
 
   // Skip icebreakers and go straight to export
   const handleSkipToExport = useCallback(() => {
@@ -221,6 +455,13 @@ function AppContent() {
     });
   };
 
+  const handleToggleContact = (leadIndex: number, contactIndex: number) => {
+    setLeads(prev => prev.map((lead, i) => i !== leadIndex ? lead : {
+      ...lead,
+      contacts: lead.contacts?.map((contact, j) => j === contactIndex ? { ...contact, keep: !contact.keep } : contact),
+    }));
+  };
+
   const handleSelectAll = () => {
     const allWithEmails = new Set<number>();
     leads.forEach((lead, i) => {
@@ -233,7 +474,15 @@ function AppContent() {
     setSelectedLeads(new Set());
   };
 
+  // Abandon any run in flight without it moving the stage afterwards
+  const discardRun = () => {
+    stopModeRef.current = 'discard';
+    abortControllerRef.current?.abort();
+  };
+
   const handleReset = () => {
+    discardRun();
+    setIsPaused(false);
     setStage('upload');
     setLeads([]);
     setSelectedLeads(new Set());
@@ -241,12 +490,15 @@ function AppContent() {
     setError(null);
     setSelectedKnowledgeBase(null);
     setCampaign(null);
-    scrapedContentRef.current.clear();
+    dossiersRef.current.clear();
+    clearSession();
   };
 
   const handleChangeAPIKeys = () => {
     // Only allow changing keys if not using server env vars
     if (!hasServerEnvVars()) {
+      discardRun();
+      setIsPaused(false);
       localStorage.removeItem('innov8ai_anthropic_key');
       localStorage.removeItem('innov8ai_firecrawl_key');
       setStage('setup');
@@ -342,6 +594,13 @@ function AppContent() {
               exit={{ opacity: 0, y: -20 }}
               transition={{ duration: 0.3 }}
             >
+              {savedSession && (
+                <ResumeSession
+                  session={savedSession}
+                  onResume={handleResumeSession}
+                  onDiscard={handleDiscardSession}
+                />
+              )}
               <FileUpload onUpload={handleFileUpload} />
             </motion.div>
           )}
@@ -371,6 +630,7 @@ function AppContent() {
             >
               <CampaignBuilder
                 knowledgeBase={selectedKnowledgeBase || undefined}
+                leads={leads}
                 onComplete={handleCampaignComplete}
                 onBack={handleBackToKnowledgeBase}
               />
@@ -423,6 +683,10 @@ function AppContent() {
                 currentIndex={processingIndex}
                 totalToProcess={validLeadsCount}
                 mode="emails"
+                isPaused={isPaused}
+                onPause={handlePause}
+                onResume={handleResume}
+                onCancel={handleCancel}
               />
               <LeadsTable leads={leads} showEnrichment />
             </motion.div>
@@ -462,6 +726,7 @@ function AppContent() {
                 selectable
                 selectedLeads={selectedLeads}
                 onToggleSelect={handleToggleSelect}
+                onToggleContact={handleToggleContact}
               />
 
               <div className="review-buttons">
@@ -471,6 +736,7 @@ function AppContent() {
                   leadsCount={selectedLeads.size}
                   onGenerateIcebreakers={handleGenerateIcebreakers}
                   onSkip={handleSkipToExport}
+                  knowledgeBaseName={selectedKnowledgeBase?.name}
                   mode="review"
                   selectedCount={selectedLeads.size}
                 />
@@ -493,6 +759,10 @@ function AppContent() {
                 currentIndex={processingIndex}
                 totalToProcess={selectedLeads.size}
                 mode="icebreakers"
+                isPaused={isPaused}
+                onPause={handlePause}
+                onResume={handleResume}
+                onCancel={handleCancel}
               />
               <LeadsTable leads={leads} showEnrichment />
             </motion.div>
@@ -513,8 +783,8 @@ function AppContent() {
                 currentIndex={leads.length}
                 mode="complete"
               />
-              <LeadsTable leads={leads} showEnrichment />
-              <ExportPanel leads={leads} onReset={handleReset} />
+              <LeadsTable leads={leads} showEnrichment onToggleContact={handleToggleContact} />
+              <ExportPanel leads={leads} campaign={campaign} onReset={handleReset} />
             </motion.div>
           )}
         </AnimatePresence>
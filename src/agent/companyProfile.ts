@@ -0,0 +1,195 @@
+/**
+ * Company profile module
+ * Cleans up the profile Claude extracts alongside emails, fills in what a regex
+ * can find more reliably (phones, social links), and formats it for prompts and exports
+ */
+
+import type { CompanyPerson, CompanyProfile } from './types.js';
+
+const SOCIAL_HOSTS = /^(?:[a-z]+\.)?(linkedin\.com|twitter\.com|x\.com|facebook\.com|instagram\.com|youtube\.com|tiktok\.com|github\.com)$/i;
+// Share buttons and intents rather than the company's own profile
+const SOCIAL_NOISE = /\/(?:share|sharer|intent|dialog|hashtag|search)\b|sharearticle/i;
+
+// tel: links, or numbers with at least 9 digits in the usual groupings
+const TEL_LINK_PATTERN = /tel:([+\d][\d\s().-]{6,})/gi;
+const PHONE_PATTERN = /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,5}\)[\s.-]?)?\d{2,5}[\s.-]\d{3,4}[\s.-]?\d{3,4}\b/g;
+
+const MAX_LIST_ITEMS = 8;
+
+function emptyProfile(): CompanyProfile {
+  return { socialLinks: [], phoneNumbers: [], techSignals: [], keyPeople: [] };
+}
+
+function cleanText(value: unknown, maxLength = 200): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const text = value.replace(/\s+/g, ' ').trim();
+  if (!text || /^(?:n\/?a|none|null|unknown|not (?:found|stated|mentioned))\.?$/i.test(text)) return undefined;
+  return text.slice(0, maxLength);
+}
+
+function cleanList(value: unknown, maxLength = 100): string[] {
+  if (!Array.isArray(value)) return [];
+  return uniqueBy(value.map(item => cleanText(item, maxLength)).filter((item): item is string => !!item), item => item.toLowerCase());
+}
+
+function uniqueBy<T>(items: T[], key: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const k = key(item);
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  }).slice(0, MAX_LIST_ITEMS);
+}
+
+function phoneKey(phone: string): string {
+  return phone.replace(/[^\d+]/g, '');
+}
+
+function socialKey(url: string): string {
+  return url.toLowerCase().replace(/^https?:\/\/(?:www\.)?/, '').replace(/\/+$/, '');
+}
+
+/**
+ * Company social profiles linked from the page (share buttons excluded)
+ */
+export function extractSocialLinks(content: string): string[] {
+  const urls = content.match(/https?:\/\/[^\s)"'<>\]]+/g) || [];
+  const links = urls.filter(url => {
+    try {
+      const parsed = new URL(url);
+      return SOCIAL_HOSTS.test(parsed.hostname) && parsed.pathname.length > 1 && !SOCIAL_NOISE.test(url);
+    } catch {
+      return false;
+    }
+  });
+  return uniqueBy(links.map(url => url.replace(/\/+$/, '')), socialKey);
+}
+
+/**
+ * Phone numbers from tel: links first, then anything that reads like a number in the text
+ */
+export function extractPhoneNumbers(content: string): string[] {
+  const fromLinks = [...content.matchAll(TEL_LINK_PATTERN)].map(match => match[1].replace(/\D+$/, ''));
+  const fromText = (content.replace(/(?:https?:\/\/|tel:)\S+/g, ' ').match(PHONE_PATTERN) || [])
+    .filter(phone => phoneKey(phone).replace('+', '').length >= 9);
+
+  return uniqueBy([...fromLinks, ...fromText].map(phone => phone.trim()), phoneKey);
+}
+
+/**
+ * Turn Claude's JSON into a CompanyProfile, dropping placeholders and anything malformed
+ */
+export function parseCompanyProfile(raw: unknown): CompanyProfile {
+  if (!raw || typeof raw !== 'object') return emptyProfile();
+  const data = raw as Record<string, unknown>;
+
+  const keyPeople: CompanyPerson[] = Array.isArray(data.keyPeople)
+    ? data.keyPeople.flatMap(person => {
+        if (typeof person === 'string') {
+          const name = cleanText(person, 80);
+          return name ? [{ name }] : [];
+        }
+        if (!person || typeof person !== 'object') return [];
+        const { name, title } = person as Record<string, unknown>;
+        const cleanName = cleanText(name, 80);
+        const cleanTitle = cleanText(title, 80);
+        return cleanName ? [{ name: cleanName, ...(cleanTitle ? { title: cleanTitle } : {}) }] : [];
+      })
+    : [];
+
+  return {
+    industry: cleanText(data.industry, 80),
+    offering: cleanText(data.offering),
+    location: cleanText(data.location, 120),
+    sizeHint: cleanText(data.sizeHint, 80),
+    socialLinks: cleanList(data.socialLinks, 200),
+    phoneNumbers: cleanList(data.phoneNumbers, 40),
+    techSignals: cleanList(data.techSignals, 60),
+    keyPeople: uniqueBy(keyPeople, person => person.name.toLowerCase()),
+  };
+}
+
+/**
+ * Add regex-found phones and social links to a profile (or build one from them alone)
+ */
+export function mergeCompanyProfile(profile: CompanyProfile | undefined, content: string): CompanyProfile {
+  const base = profile || emptyProfile();
+  return {
+    ...base,
+    phoneNumbers: uniqueBy([...base.phoneNumbers, ...extractPhoneNumbers(content)], phoneKey),
+    socialLinks: uniqueBy([...extractSocialLinks(content), ...base.socialLinks], socialKey),
+  };
+}
+
+export function isCompanyProfileEmpty(profile: CompanyProfile | undefined): boolean {
+  if (!profile) return true;
+  return !profile.industry && !profile.offering && !profile.location && !profile.sizeHint
+    && profile.socialLinks.length === 0 && profile.phoneNumbers.length === 0
+    && profile.techSignals.length === 0 && profile.keyPeople.length === 0;
+}
+
+/**
+ * Plain-text summary for grounding a prompt - only the fields that say something about the business
+ */
+export function formatCompanyProfile(profile: CompanyProfile | undefined): string {
+  if (!profile) return '';
+  const people = profile.keyPeople.map(p => (p.title ? `${p.name} (${p.title})` : p.name));
+
+  return [
+    profile.industry && `Industry: ${profile.industry}`,
+    profile.offering && `What they sell: ${profile.offering}`,
+    profile.location && `Location: ${profile.location}`,
+    profile.sizeHint && `Size: ${profile.sizeHint}`,
+    profile.techSignals.length > 0 && `Tech: ${profile.techSignals.join(', ')}`,
+    people.length > 0 && `Key people: ${people.join(', ')}`,
+  ].filter(Boolean).join('\n');
+}
+
+/**
+ * Flat columns for CSV export
+ */
+export function companyProfileColumns(profile: CompanyProfile | undefined): Record<string, string> {
+  const p = profile || emptyProfile();
+  return {
+    industry: p.industry || '',
+    offering: p.offering || '',
+    location: p.location || '',
+    sizeHint: p.sizeHint || '',
+    phone: p.phoneNumbers[0] || '',
+    linkedin: p.socialLinks.find(url => /linkedin\.com/i.test(url)) || '',
+    socialLinks: p.socialLinks.join(' '),
+    techSignals: p.techSignals.join('; '),
+    keyPeople: p.keyPeople.map(person => (person.title ? `${person.name} (${person.title})` : person.name)).join('; '),
+  };
+}
+
+export const COMPANY_PROFILE_COLUMNS = Object.keys(companyProfileColumns(undefined));
+
+/**
+ * Most common values across many leads' profiles, for describing a whole audience
+ */
+export function summariseAudience(profiles: CompanyProfile[], limit = 5): string {
+  const top = (values: Array<string | undefined>) => {
+    const counts = new Map<string, number>();
+    for (const value of values) {
+      if (value) counts.set(value, (counts.get(value) || 0) + 1);
+    }
+    return [...counts.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([value, count]) => (count > 1 ? `${value} (${count})` : value));
+  };
+
+  const industries = top(profiles.map(p => p.industry));
+  const locations = top(profiles.map(p => p.location));
+  const sizes = top(profiles.map(p => p.sizeHint));
+  const tech = top(profiles.flatMap(p => p.techSignals));
+
+  return [
+    industries.length > 0 && `Industries: ${industries.join(', ')}`,
+    locations.length > 0 && `Locations: ${locations.join(', ')}`,
+    sizes.length > 0 && `Company sizes: ${sizes.join(', ')}`,
+    tech.length > 0 && `Common tech: ${tech.join(', ')}`,
+  ].filter(Boolean).join('\n');
+}
@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { DeliverabilityVerdict, EnrichedLead } from './types.js';
+import { discoverContacts, expandLeadContacts } from './contactDiscovery.js';
+
+const emailsByName = (content: string) =>
+  Object.fromEntries(discoverContacts(content, 'https://acme.com', { targetRoles: [] }).map(c => [c.name, c.email]));
+
+test('one published address sets the pattern for every unpublished colleague', () => {
+  const content = '## Our Team\n\n**Jane Doe**\nCEO\njane@acme.com\n\n**John Smith**\nHead of Sales\n';
+  assert.deepEqual(emailsByName(content), { 'Jane Doe': 'jane@acme.com', 'John Smith': 'john@acme.com' });
+});
+
+test('with no published addresses the default pattern is guessed', () => {
+  const content = '## Our Team\n\n**John Smith**\nHead of Sales\n';
+  assert.deepEqual(emailsByName(content), { 'John Smith': 'john.smith@acme.com' });
+});
+
+test('the same person found twice, in any case, is one contact keeping the card\'s details', () => {
+  const content = '## Our Team\n\n**Jane Doe**\nCEO\nJane.Doe@Acme.com\n\n**JANE DOE**\nChief Executive\n';
+  const contacts = discoverContacts(content, 'https://acme.com', {
+    targetRoles: [],
+    keyPeople: [{ name: 'jane doe', title: 'Founder' }],
+  });
+
+  assert.equal(contacts.length, 1);
+  assert.equal(contacts[0].title, 'CEO');
+  assert.equal(contacts[0].email, 'jane.doe@acme.com');
+});
+
+test('a published address in capitals still matches the name', () => {
+  const content = '## Our Team\n\n**John Smith**\nHead of Sales\n\nReach John at JOHN.SMITH@ACME.COM';
+  const [john] = discoverContacts(content, 'https://acme.com', { targetRoles: [] });
+  assert.equal(john.email, 'john.smith@acme.com');
+  assert.equal(john.emailSource, 'page_content');
+});
+
+test('a contact row for the lead\'s own address keeps its flags whatever the casing', () => {
+  const verdict: DeliverabilityVerdict = { status: 'deliverable', syntaxValid: true, hasMx: true, catchAllSuspected: false, disposable: false, roleAccount: false };
+  const lead = {
+    website: 'acme.com',
+    email: 'Jane.Doe@Acme.com',
+    emailDeobfuscated: true,
+    deliverability: verdict,
+    contacts: [
+      { name: 'Jane Doe', email: 'jane.doe@acme.com', keep: true },
+      { name: 'John Smith', email: 'john.smith@acme.com', keep: true },
+    ],
+  } as EnrichedLead;
+
+  const [jane, john] = expandLeadContacts(lead);
+  assert.equal(jane.emailDeobfuscated, true);
+  assert.deepEqual(jane.deliverability, verdict);
+  assert.equal(john.emailDeobfuscated, undefined);
+  assert.equal(john.deliverability, undefined);
+});
@@ -0,0 +1,337 @@
+/**
+ * Contact discovery module
+ * Turns a site's team/leadership pages into named contacts, ranks them against the
+ * roles we're targeting, and expands one company row into a row per contact
+ */
+
+import type { CompanyPerson, DeliverabilityVerdict, EnrichedLead, LeadContact } from './types.js';
+import { extractDomain } from './crawl.js';
+import { extractEmailsFromContent } from './emailExtractor.js';
+import { isRoleAccount } from './emailVerification.js';
+import {
+  FIRST_NAME_KEYS,
+  LAST_NAME_KEYS,
+  ROLE_PATTERN,
+  applyEmailPattern,
+  detectEmailPattern,
+  inferEmails,
+  matchPersonNames,
+  normalizeFieldKey,
+  parseFullName,
+  type EmailPattern,
+} from './emailInference.js';
+
+export type NamedContact = LeadContact & { name: string };
+
+export interface ContactDiscoveryOptions {
+  targetRoles: string[];
+  knownEmails?: string[];  // Addresses already found elsewhere on the site
+  keyPeople?: CompanyPerson[];  // People Claude picked out for the company profile
+  maxContacts?: number;
+}
+
+// Anything that reads like a job title, senior or not
+const TITLE_PATTERN = /\b(?:founder|owner|ceo|cto|cfo|coo|cmo|cro|chief|president|director|partner|principal|head|manager|lead|vp|chair|officer|executive|consultant|engineer|designer|developer|accountant|advisor|adviser|associate|coordinator|specialist|administrator|architect|analyst|surveyor|solicitor|md)\b/i;
+const LINKEDIN_PATTERN = /https?:\/\/(?:[a-z]{2,3}\.)?linkedin\.com\/in\/[^\s)"'<>\]]+/i;
+const EMAIL_PATTERN = /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g;
+
+// Abbreviations expanded before titles and target roles are compared
+const TITLE_ABBREVIATIONS: Array<[RegExp, string]> = [
+  [/\bceo\b/g, 'chief executive officer'],
+  [/\bcto\b/g, 'chief technology officer'],
+  [/\bcfo\b/g, 'chief financial officer'],
+  [/\bcoo\b/g, 'chief operating officer'],
+  [/\bcmo\b/g, 'chief marketing officer'],
+  [/\bcro\b/g, 'chief revenue officer'],
+  [/\bmd\b/g, 'managing director'],
+  [/\bvp\b/g, 'vice president'],
+  [/\bops\b/g, 'operations'],
+  [/\bcofounder\b/g, 'co founder'],
+];
+const TITLE_STOPWORDS = new Set(['of', 'the', 'and', 'for', 'at', 'a']);
+
+const DEFAULT_MAX_CONTACTS = 10;
+const CARD_LINES = 4;  // Lines after a name that can still belong to that person
+
+function titleWords(text: string): string[] {
+  let normalized = text.toLowerCase().replace(/&/g, ' and ').replace(/[^a-z\s-]/g, ' ').replace(/-/g, ' ');
+  for (const [pattern, expansion] of TITLE_ABBREVIATIONS) {
+    normalized = normalized.replace(pattern, expansion);
+  }
+  return normalized.split(/\s+/).filter(word => word && !TITLE_STOPWORDS.has(word));
+}
+
+/**
+ * Index of the first target role a title satisfies, or -1
+ * A role matches when all its words appear in the title, so "Founder" matches
+ * "Co-Founder & CEO" and "Operations Director" matches "Director of Operations"
+ */
+export function matchTargetRole(title: string | undefined, targetRoles: string[]): number {
+  if (!title) return -1;
+  const words = new Set(titleWords(title));
+  return targetRoles.findIndex(role => {
+    const roleWords = titleWords(role);
+    return roleWords.length > 0 && roleWords.every(word => words.has(word));
+  });
+}
+
+function stripMarkdown(line: string): string {
+  return line
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^[\s>#*+-]+/, '')
+    .replace(/[*_`]/g, '')
+    .trim();
+}
+
+function isTitleLine(text: string): boolean {
+  return text.length > 0 && text.length <= 80 && TITLE_PATTERN.test(text) && !text.includes('@');
+}
+
+/**
+ * The single person a line introduces, with any title on the same line ("Jane Doe - Founder")
+ */
+function parseNameLine(text: string): { name: string; title?: string } | null {
+  // Long lines are prose that happens to mention someone
+  if (!text || text.split(/\s+/).length > 12) return null;
+
+  const names = matchPersonNames(text);
+  if (names.length !== 1) return null;
+
+  const [name] = names;
+  const rest = text.replace(name, '').replace(/^[\s,|:–—-]+|[\s,|:–—-]+$/g, '').trim();
+  return { name, ...(rest && isTitleLine(rest) ? { title: rest } : {}) };
+}
+
+/**
+ * Find the address on the page that belongs to a name, if the page publishes one
+ */
+function findPublishedEmail(name: string, emails: string[], domain: string): string | undefined {
+  const parsed = parseFullName(name);
+  if (!parsed) return undefined;
+
+  const patterns: EmailPattern[] = ['first.last', 'flast', 'firstlast', 'first_last', 'f.last', 'firstl', 'first', 'last'];
+  const localParts = new Set(patterns.map(pattern => applyEmailPattern(pattern, parsed)).filter(Boolean));
+
+  return emails.find(email => {
+    const [localPart, emailDomain] = email.toLowerCase().split('@');
+    return localParts.has(localPart) && (emailDomain === domain || emailDomain?.endsWith(`.${domain}`));
+  });
+}
+
+/**
+ * Parse team/leadership pages into contacts
+ * A person is a name line with a job title on it or within the next few lines;
+ * an email or LinkedIn link inside that "card" is attributed to them
+ */
+export function parseContacts(content: string): NamedContact[] {
+  const rawLines = content.split('\n');
+  const lines = rawLines.map(stripMarkdown);
+  const contacts: NamedContact[] = [];
+
+  lines.forEach((text, i) => {
+    const person = parseNameLine(text);
+    if (!person) return;
+
+    let title = person.title;
+    let linkedinUrl = rawLines[i].match(LINKEDIN_PATTERN)?.[0];
+    // A shared inbox next to someone's name (often the footer) isn't theirs
+    const personalEmail = (line: string) => line.match(EMAIL_PATTERN)?.find(e => !isRoleAccount(e));
+    let email = personalEmail(rawLines[i]);
+
+    for (let j = i + 1; j <= i + CARD_LINES && j < lines.length; j++) {
+      // The next person's card starts here
+      if (parseNameLine(lines[j])) break;
+      if (!title && isTitleLine(lines[j])) title = lines[j];
+      linkedinUrl ||= rawLines[j].match(LINKEDIN_PATTERN)?.[0];
+      email ||= personalEmail(rawLines[j]);
+    }
+
+    // Without a title it's as likely to be a product or a testimonial's author
+    if (!title) return;
+
+    contacts.push({
+      name: person.name,
+      title,
+      ...(email ? { email: email.toLowerCase(), emailSource: 'page_content' as const } : {}),
+      ...(linkedinUrl ? { linkedinUrl: linkedinUrl.replace(/\/+$/, '') } : {}),
+    });
+  });
+
+  return contacts;
+}
+
+function contactKey(name: string): string {
+  const parsed = parseFullName(name);
+  return parsed ? `${parsed.first} ${parsed.last || ''}` : name.toLowerCase();
+}
+
+/**
+ * Rank contacts: target roles in list order, then other senior titles; a published
+ * address or LinkedIn profile breaks ties
+ */
+export function rankContacts<T extends LeadContact>(contacts: T[], targetRoles: string[]): T[] {
+  const score = (contact: LeadContact) => {
+    const roleIndex = matchTargetRole(contact.title, targetRoles);
+    let total = roleIndex >= 0 ? Math.max(20, 100 - roleIndex * 10) : 0;
+    if (roleIndex < 0 && contact.title && ROLE_PATTERN.test(contact.title)) total += 10;
+    if (contact.emailSource === 'page_content') total += 6;
+    else if (contact.email) total += 2;
+    if (contact.linkedinUrl) total += 3;
+    return total;
+  };
+
+  return contacts
+    .map(contact => ({ contact, score: score(contact) }))
+    .sort((a, b) => b.score - a.score)
+    .map(({ contact }) => contact);
+}
+
+/**
+ * Find, enrich and rank the named people on a lead's site
+ * Published addresses are matched to names; everyone else gets a pattern-inferred guess
+ */
+export function discoverContacts(
+  content: string,
+  websiteUrl: string,
+  options: ContactDiscoveryOptions
+): NamedContact[] {
+  const { targetRoles, knownEmails = [], keyPeople = [], maxContacts = DEFAULT_MAX_CONTACTS } = options;
+  const domain = extractDomain(websiteUrl);
+  const pageEmails = [...new Set([...knownEmails, ...extractEmailsFromContent(content)].map(e => e.toLowerCase()))];
+
+  // Parsed cards first (they carry links and addresses), then anyone only Claude spotted
+  const byName = new Map<string, NamedContact>();
+  for (const contact of [...parseContacts(content), ...keyPeople.map(p => ({ name: p.name, title: p.title }))]) {
+    const key = contactKey(contact.name);
+    const existing = byName.get(key);
+    byName.set(key, existing ? { ...contact, ...existing, title: existing.title || contact.title } : contact);
+  }
+
+  const resolved = [...byName.values()].map((contact): NamedContact => {
+    const matched = targetRoles[matchTargetRole(contact.title, targetRoles)];
+    const withRole = matched ? { ...contact, matchedRole: matched } : contact;
+    if (withRole.email) return withRole;
+
+    const published = findPublishedEmail(contact.name, pageEmails, domain);
+    return published ? { ...withRole, email: published, emailSource: 'page_content' as const } : withRole;
+  });
+
+  // Learn the site's pattern once from everyone whose address we know, so one published
+  // jane@ shapes the guess for every unpublished colleague
+  const known = resolved.flatMap(contact => {
+    const parsed = contact.email ? parseFullName(contact.name) : null;
+    return parsed ? [{ email: contact.email!, parsed }] : [];
+  });
+  const sitePattern = known
+    .map(({ email, parsed }) => detectEmailPattern([email], [parsed], domain))
+    .find((pattern): pattern is EmailPattern => pattern !== null);
+
+  const contacts = resolved.map((contact): NamedContact => {
+    if (contact.email) return contact;
+
+    const parsed = parseFullName(contact.name);
+    if (!parsed?.last) return contact;
+    const localPart = sitePattern ? applyEmailPattern(sitePattern, parsed) : null;
+    const inferred = localPart ? `${localPart}@${domain}` : inferEmails([parsed], websiteUrl, pageEmails).primaryEmail;
+    return inferred ? { ...contact, email: inferred, emailSource: 'inferred' as const } : contact;
+  });
+
+  return rankContacts(contacts, targetRoles).slice(0, maxContacts);
+}
+
+/**
+ * The full candidate list for a lead: named people first (in rank order), then every other
+ * address the site gave up, with confidence, any deliverability verdict, and a default pick
+ * The lead's primary address and target-role people with a published address start kept
+ */
+export function buildLeadContacts(
+  people: NamedContact[],
+  emails: string[],
+  options: {
+    primaryEmail?: string;
+    primaryConfidence?: LeadContact['confidence'];
+    primaryInferred?: boolean;
+    websiteUrl: string;
+    verdicts?: Record<string, DeliverabilityVerdict>;
+  }
+): LeadContact[] {
+  const { primaryEmail, primaryConfidence, primaryInferred, websiteUrl, verdicts = {} } = options;
+  const domain = extractDomain(websiteUrl);
+  const primary = primaryEmail?.toLowerCase();
+  const onDomain = (email: string) => {
+    const emailDomain = email.toLowerCase().split('@')[1];
+    return emailDomain === domain || !!emailDomain?.endsWith(`.${domain}`);
+  };
+
+  const named: LeadContact[] = people.map(person => ({
+    ...person,
+    confidence: person.emailSource === 'page_content' ? 'high' : 'low',
+  }));
+
+  // Found addresses nobody's name claimed, plus the primary if it was only ever a guess
+  const attached = new Set(named.flatMap(c => (c.email ? [c.email.toLowerCase()] : [])));
+  const unclaimed = [...new Set([...(primary ? [primary] : []), ...emails.map(e => e.toLowerCase())])]
+    .filter(email => !attached.has(email));
+  const inboxes: LeadContact[] = unclaimed.map(email => {
+    const inferred = email === primary && primaryInferred;
+    return {
+      email,
+      emailSource: inferred ? 'inferred' : 'page_content',
+      confidence: inferred ? 'low' : email === primary && primaryConfidence ? primaryConfidence : onDomain(email) ? 'medium' : 'low',
+    };
+  });
+
+  const all = [...named, ...inboxes].map(contact => {
+    const email = contact.email?.toLowerCase();
+    const isPrimary = !!email && email === primary;
+    return {
+      ...contact,
+      ...(email && verdicts[email] ? { deliverability: verdicts[email] } : {}),
+      keep: isPrimary || (!!contact.matchedRole && contact.emailSource === 'page_content'),
+    };
+  });
+
+  // The lead's own address leads the list so the company row and the first contact agree
+  return [...all.filter(c => c.email?.toLowerCase() === primary), ...all.filter(c => c.email?.toLowerCase() !== primary)];
+}
+
+/**
+ * Set a contact's first/last name on a row: firstName/lastName (what merge fields read),
+ * plus the lead's own name columns when it has them so they don't name someone else
+ */
+function contactNameFields(extraFields: Record<string, string> | undefined, name: string): Record<string, string> {
+  const [first, ...rest] = name.split(/\s+/);
+  const last = rest.join(' ');
+  const fields: Record<string, string> = { ...extraFields, firstName: first, lastName: last };
+
+  for (const key of Object.keys(fields)) {
+    if (FIRST_NAME_KEYS.includes(normalizeFieldKey(key))) fields[key] = first;
+    else if (LAST_NAME_KEYS.includes(normalizeFieldKey(key))) fields[key] = last;
+  }
+  return fields;
+}
+
+/**
+ * One row per kept contact, each addressed to that person (or inbox)
+ * Leads with no kept contacts stay as a single company row
+ */
+export function expandLeadContacts<T extends EnrichedLead>(lead: T): T[] {
+  const kept = (lead.contacts || []).filter(contact => contact.keep && contact.email);
+  if (kept.length === 0) return [lead];
+
+  const leadEmail = lead.email?.toLowerCase();
+  return kept.map(contact => {
+    const isLeadEmail = contact.email!.toLowerCase() === leadEmail;
+    return {
+      ...lead,
+      name: contact.name || lead.name,
+      email: contact.email,
+      emailSource: contact.emailSource === 'inferred' ? 'inferred' : undefined,
+      emailDeobfuscated: isLeadEmail ? lead.emailDeobfuscated : undefined,
+      deliverability: contact.deliverability || (isLeadEmail ? lead.deliverability : undefined),
+      extraFields: contact.name ? contactNameFields(lead.extraFields, contact.name) : lead.extraFields,
+      contact,
+    };
+  });
+}
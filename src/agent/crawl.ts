@@ -1,9 +1,10 @@
 /**
- * Website crawling module using Firecrawl
+ * Website crawling module
  * Handles fetching and parsing website content for lead enrichment
  */
 
 import type { CrawlResult } from './types.js';
+import { createNativeScrapeProvider, type ScrapeProvider } from './scrapeProvider.js';
 
 /**
  * Common valid TLDs - includes traditional, country-code, and new gTLDs
@@ -196,17 +197,23 @@ export function isLikelyValidDomain(input: string): boolean {
 
 /**
  * Crawl a website and extract relevant content
- * This function is designed to be called by the Claude Agent SDK
- * which has access to Firecrawl MCP tools
+ * Uses the native fetch provider unless another provider (e.g. Firecrawl) is passed in
  */
-export async function crawlWebsite(url: string): Promise<CrawlResult> {
+export async function crawlWebsite(
+  url: string,
+  provider: ScrapeProvider = createNativeScrapeProvider()
+): Promise<CrawlResult> {
   // Normalize URL
   const normalizedUrl = normalizeUrl(url);
+  const page = await provider.scrape(normalizedUrl);
 
   return {
     url: normalizedUrl,
-    content: '',
-    success: true,
+    content: page.markdown || '',
+    title: page.title,
+    description: page.description,
+    success: page.success,
+    error: page.error,
   };
 }
 
@@ -0,0 +1,93 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { LeadDossier } from './types.js';
+import {
+  classifyPageUrl,
+  compareCrawlTargets,
+  discoverCrawlTargets,
+  guessCrawlTargets,
+  pageKey,
+  selectDossierContent,
+  selectDossierPages,
+  type CrawlTarget,
+} from './dossier.js';
+
+test('pages are classified by path, and assets and deep pages are not worth crawling', () => {
+  assert.equal(classifyPageUrl('https://acme.com/'), 'home');
+  assert.equal(classifyPageUrl('https://acme.com/index.html'), 'home');
+  assert.equal(classifyPageUrl('https://acme.com/Contact-Us/'), 'contact');
+  assert.equal(classifyPageUrl('https://acme.com/about/leadership'), 'team');
+  assert.equal(classifyPageUrl('https://acme.com/our-story'), 'about');
+  assert.equal(classifyPageUrl('https://acme.com/company'), 'company');
+  assert.equal(classifyPageUrl('https://acme.com/team/photo.jpg'), null);
+  assert.equal(classifyPageUrl('https://acme.com/blog/2024/05/about-our-team'), null);
+  assert.equal(classifyPageUrl('https://acme.com/pricing'), null);
+  assert.equal(classifyPageUrl('not a url'), null);
+});
+
+test('page keys ignore protocol, www, query, hash and trailing slash', () => {
+  assert.equal(pageKey('https://www.acme.com/team/?ref=nav#jane'), 'acme.com/team');
+  assert.equal(pageKey('acme.com/team'), 'acme.com/team');
+});
+
+test('crawl targets are same-site contact/about/team links, once each', () => {
+  const links = [
+    '/contact',
+    'https://www.acme.com/contact/#form',
+    'https://acme.com/team?page=2',
+    'about-us',
+    'https://linkedin.com/company/acme',
+    'https://acme.com/',
+    'https://acme.com/pricing',
+    'mailto:info@acme.com',
+  ];
+
+  assert.deepEqual(discoverCrawlTargets(links, 'https://www.acme.com', 1), [
+    { url: 'https://www.acme.com/contact', kind: 'contact', depth: 1 },
+    { url: 'https://acme.com/team?page=2', kind: 'team', depth: 1 },
+    { url: 'https://www.acme.com/about-us', kind: 'about', depth: 1 },
+  ]);
+});
+
+test('common paths are only guessed for kinds the links didn\'t reveal', () => {
+  const guessed = guessCrawlTargets('acme.com', new Set(['contact', 'team']));
+  assert.deepEqual(guessed.map(target => target.url), ['https://acme.com/about', 'https://acme.com/about-us', 'https://acme.com/company']);
+  assert.ok(guessed.every(target => target.guessed && target.depth === 1));
+});
+
+test('the queue runs homepage, contact, team, about, company; shallow and found links first', () => {
+  const targets: CrawlTarget[] = [
+    { url: 'g-about', kind: 'about', depth: 1, guessed: true },
+    { url: 'about', kind: 'about', depth: 1 },
+    { url: 'team-deep', kind: 'team', depth: 2 },
+    { url: 'company', kind: 'company', depth: 1 },
+    { url: 'team', kind: 'team', depth: 1 },
+    { url: 'contact', kind: 'contact', depth: 2 },
+    { url: 'home', kind: 'home', depth: 0 },
+  ];
+
+  assert.deepEqual([...targets].sort(compareCrawlTargets).map(target => target.url),
+    ['home', 'contact', 'team', 'team-deep', 'about', 'g-about', 'company']);
+});
+
+const dossier: LeadDossier = {
+  website: 'acme.com',
+  crawledAt: '2026-01-01T00:00:00.000Z',
+  pages: [
+    { url: 'https://acme.com', kind: 'home', markdown: 'Home', depth: 0 },
+    { url: 'https://acme.com/team', kind: 'team', markdown: 'Team', depth: 1 },
+    { url: 'https://acme.com/contact', kind: 'contact', markdown: 'Contact', depth: 1 },
+  ],
+};
+
+test('each step reads its own pages, best first, labelled with their URLs', () => {
+  assert.deepEqual(selectDossierPages(dossier, 'email').map(page => page.kind), ['contact', 'home', 'team']);
+  assert.deepEqual(selectDossierPages(dossier, 'people').map(page => page.kind), ['team', 'home']);
+  assert.equal(selectDossierContent(dossier, 'personalisation'), '<!-- https://acme.com -->\nHome\n\n<!-- https://acme.com/team -->\nTeam');
+});
+
+test('every page is used when none of the preferred kinds were crawled, and no dossier is no content', () => {
+  const contactOnly: LeadDossier = { ...dossier, pages: [dossier.pages[2]] };
+  assert.equal(selectDossierContent(contactOnly, 'personalisation'), '<!-- https://acme.com/contact -->\nContact');
+  assert.equal(selectDossierContent(undefined, 'email'), '');
+});
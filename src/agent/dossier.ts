@@ -0,0 +1,148 @@
+/**
+ * Lead dossier module
+ * Plans a bounded crawl of a lead's site (homepage, then contact/about/team pages
+ * found in its links) and picks the pages that suit each enrichment step
+ */
+
+import type { DossierPage, DossierPageKind, LeadDossier } from './types.js';
+import { buildContactUrl, normalizeUrl } from './crawl.js';
+
+export interface CrawlTarget {
+  url: string;
+  kind: DossierPageKind;
+  depth: number;
+  guessed?: boolean;  // From buildContactUrl rather than a link on the site
+}
+
+export type DossierPurpose = 'email' | 'personalisation' | 'people';
+
+// Path keywords for each kind of page, checked in this order
+const PAGE_KIND_PATTERNS: Array<[DossierPageKind, RegExp]> = [
+  ['contact', /contact|get-in-touch|enquir|inquir|reach-us|find-us|locations?$/],
+  ['team', /team|people|leadership|staff|founders?|management|who-we-are\/team/],
+  ['about', /about|who-we-are|our-story|story|mission/],
+  ['company', /company|firm|practice/],
+];
+
+// Crawl order: where contact details and people are most likely to be
+const KIND_PRIORITY: Record<DossierPageKind, number> = {
+  home: 0,
+  contact: 1,
+  team: 2,
+  about: 3,
+  company: 4,
+};
+
+// Which pages each step reads, best first
+const PURPOSE_PAGES: Record<DossierPurpose, DossierPageKind[]> = {
+  email: ['contact', 'home', 'team', 'about', 'company'],
+  personalisation: ['home', 'about', 'company', 'team'],
+  people: ['team', 'about', 'company', 'home'],
+};
+
+const ASSET_PATTERN = /\.(pdf|jpe?g|png|gif|svg|webp|zip|docx?|xlsx?|pptx?|mp[34]|mov|css|js|xml|json)$/i;
+
+function hostOf(url: string): string | null {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Key a URL for de-duplication: no protocol, www, query, hash or trailing slash
+ */
+export function pageKey(url: string): string {
+  try {
+    const parsed = new URL(normalizeUrl(url));
+    return `${parsed.hostname.replace(/^www\./, '')}${parsed.pathname.replace(/\/+$/, '')}`;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Work out what kind of page a URL is from its path, or null if it's not worth crawling
+ */
+export function classifyPageUrl(url: string): DossierPageKind | null {
+  let path: string;
+  try {
+    path = new URL(url).pathname.toLowerCase().replace(/\/+$/, '');
+  } catch {
+    return null;
+  }
+
+  if (path === '' || /^\/(index\.html?|home)$/.test(path)) return 'home';
+  if (ASSET_PATTERN.test(path)) return null;
+  // Deep paths are blog posts, products and the like
+  if (path.split('/').length > 3) return null;
+
+  const match = PAGE_KIND_PATTERNS.find(([, pattern]) => pattern.test(path));
+  return match ? match[0] : null;
+}
+
+/**
+ * Pick the contact/about/team links on a page that belong to the same site
+ */
+export function discoverCrawlTargets(links: string[], baseUrl: string, depth: number): CrawlTarget[] {
+  const siteHost = hostOf(normalizeUrl(baseUrl));
+  const seen = new Set<string>();
+  const targets: CrawlTarget[] = [];
+
+  for (const link of links) {
+    let url: string;
+    try {
+      url = new URL(link, normalizeUrl(baseUrl)).toString();
+    } catch {
+      continue;
+    }
+
+    if (!/^https?:/.test(url) || hostOf(url) !== siteHost) continue;
+
+    const kind = classifyPageUrl(url);
+    const key = pageKey(url);
+    if (!kind || kind === 'home' || seen.has(key)) continue;
+
+    seen.add(key);
+    targets.push({ url: url.split('#')[0], kind, depth });
+  }
+
+  return targets;
+}
+
+/**
+ * Guess common contact/about/team paths for kinds the site's links didn't reveal
+ */
+export function guessCrawlTargets(baseUrl: string, foundKinds: Set<DossierPageKind>): CrawlTarget[] {
+  return buildContactUrl(baseUrl).flatMap(url => {
+    const kind = classifyPageUrl(url);
+    return kind && !foundKinds.has(kind) ? [{ url, kind, depth: 1, guessed: true }] : [];
+  });
+}
+
+/**
+ * Order the crawl queue: homepage, then contact, team, about, company; shallow pages first
+ */
+export function compareCrawlTargets(a: CrawlTarget, b: CrawlTarget): number {
+  return KIND_PRIORITY[a.kind] - KIND_PRIORITY[b.kind] || a.depth - b.depth || Number(!!a.guessed) - Number(!!b.guessed);
+}
+
+/**
+ * Pages for one step, best first
+ */
+export function selectDossierPages(dossier: LeadDossier, purpose: DossierPurpose): DossierPage[] {
+  return PURPOSE_PAGES[purpose].flatMap(kind => dossier.pages.filter(page => page.kind === kind));
+}
+
+/**
+ * Join the pages for one step into a single document, each page labelled with its URL
+ * Falls back to every page when none of the preferred kinds were crawled
+ */
+export function selectDossierContent(dossier: LeadDossier | undefined, purpose: DossierPurpose): string {
+  if (!dossier) return '';
+  const pages = selectDossierPages(dossier, purpose);
+  return (pages.length > 0 ? pages : dossier.pages)
+    .map(page => `<!-- ${page.url} -->\n${page.markdown}`)
+    .join('\n\n');
+}
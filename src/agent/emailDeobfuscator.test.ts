@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeCloudflareEmail, deobfuscateContent, extractEmailCandidates } from './emailDeobfuscator.js';
+import { extractEmailDeterministically } from './emailExtractor.js';
+
+const emails = (content: string) => extractEmailCandidates(content).map(c => c.email);
+
+test('bracketed separators are collapsed anywhere', () => {
+  assert.deepEqual(emails('Write to info (at) acme (dot) co (dot) uk'), ['info@acme.co.uk']);
+  assert.deepEqual(emails('sales [at] acme.com or support{at}acme[dot]com'), ['sales@acme.com', 'support@acme.com']);
+  assert.deepEqual(emails('hello@acme[dot]com'), ['hello@acme.com']);
+});
+
+test('plain "at" and "dot" only count straight after an email cue', () => {
+  assert.deepEqual(emails('Email: info at acme dot com'), ['info@acme.com']);
+  assert.deepEqual(emails('Contact us at jane at acme dot io'), ['jane@acme.io']);
+  assert.equal(deobfuscateContent('Email us at hello at acme dot com'), 'Email us at hello@acme.com');
+
+  assert.deepEqual(emails('Find us at acme dot com'), []);
+  assert.deepEqual(emails('Meet the team at our office dot com launch'), []);
+  assert.deepEqual(emails('Contact us at acme dot com'), []);
+});
+
+test('entities, reversed mailto links and Cloudflare protection are decoded', () => {
+  assert.deepEqual(emails('info&#64;acme&#46;com and sales&#x40;acme.com and ops&commat;acme&period;com'), ['info@acme.com', 'sales@acme.com', 'ops@acme.com']);
+  assert.deepEqual(emails('<a href="mailto:moc.emca@ofni">Email</a>'), ['info@acme.com']);
+
+  const hex = '42' + [...'jane@acme.com'].map(c => (c.charCodeAt(0) ^ 0x42).toString(16).padStart(2, '0')).join('');
+  assert.equal(decodeCloudflareEmail(hex), 'jane@acme.com');
+  assert.deepEqual(emails(`<span data-cfemail="${hex}">[email protected]</span>`), ['jane@acme.com']);
+  assert.deepEqual(emails(`[Email](/cdn-cgi/l/email-protection#${hex})`), ['jane@acme.com']);
+});
+
+test('only addresses recovered by de-obfuscation are flagged', () => {
+  assert.deepEqual(extractEmailCandidates('plain@acme.com, hidden (at) acme (dot) com'), [
+    { email: 'plain@acme.com', deobfuscated: false },
+    { email: 'hidden@acme.com', deobfuscated: true },
+  ]);
+});
+
+test('a de-obfuscated primary address is left for Claude, and decoded extras are dropped from a settled one', () => {
+  assert.equal(extractEmailDeterministically('Email: info (at) acme (dot) com', 'https://acme.com'), null);
+
+  const settled = extractEmailDeterministically('info@acme.com or sales (at) acme (dot) com', 'https://acme.com');
+  assert.equal(settled?.primaryEmail, 'info@acme.com');
+  assert.deepEqual(settled?.emails, ['info@acme.com']);
+});
+
+test('long unbroken tokens are scanned in linear time', () => {
+  const inputs = [
+    'a'.repeat(200_000),
+    'a.'.repeat(100_000),
+    `${'a'.repeat(100_000)}@`,
+    `Email: ${'a'.repeat(100_000)} at`,
+    `${'x'.repeat(100_000)} (at) ${'y'.repeat(100_000)}`,
+  ];
+
+  for (const input of inputs) {
+    const started = Date.now();
+    extractEmailCandidates(input);
+    assert.ok(Date.now() - started < 1000, `${input.slice(0, 20)}... took ${Date.now() - started}ms`);
+  }
+});
+
+test('local parts longer than 64 characters are not addresses', () => {
+  assert.deepEqual(emails(`${'a'.repeat(65)}@acme.com`), []);
+  assert.deepEqual(emails(`${'a'.repeat(64)}@acme.com`), [`${'a'.repeat(64)}@acme.com`]);
+});
@@ -0,0 +1,116 @@
+/**
+ * Email de-obfuscation module
+ * Recovers addresses that sites hide from scrapers: "info (at) acme (dot) co.uk",
+ * HTML entities, reversed mailto: links and Cloudflare email protection
+ */
+
+import type { EmailCandidate } from './types.js';
+
+// Matches only start at the beginning of a token, and local parts and labels are capped at their
+// RFC lengths - otherwise a long unbroken token is rescanned from every character (quadratic)
+const EMAIL_PATTERN = /(?<![a-zA-Z0-9._%+-])[a-zA-Z0-9._%+-]{1,64}@[a-zA-Z0-9.-]{1,253}\.[a-zA-Z]{2,63}/g;
+const STRICT_EMAIL_PATTERN = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
+
+// Building blocks for "(at)" / "[dot]" style separators
+const LOCAL_PART = String.raw`(?<![a-zA-Z0-9._%+-])[a-zA-Z0-9._%+-]{1,64}`;
+const LABEL = String.raw`[a-zA-Z0-9-]{1,63}`;
+const BRACKET_AT = String.raw`\s*[([{<]\s*at\s*[)\]}>]\s*`;
+const BRACKET_DOT = String.raw`\s*[([{<]\s*dot\s*[)\]}>]\s*`;
+const WORD_AT = String.raw`\s+at\s+`;
+const WORD_DOT = String.raw`\s+dot\s+`;
+
+// "info (at) acme.com", "info [at] acme [dot] com"
+const BRACKET_AT_PATTERN = new RegExp(
+  `${LOCAL_PART}${BRACKET_AT}${LABEL}(?:(?:${BRACKET_DOT}|${WORD_DOT}|\\.)${LABEL})+`,
+  'gi'
+);
+// "info@acme[dot]com"
+const BRACKET_DOT_PATTERN = new RegExp(
+  `${LOCAL_PART}@${LABEL}(?:(?:${BRACKET_DOT}|\\.)${LABEL})*${BRACKET_DOT}${LABEL}`,
+  'gi'
+);
+// "Email: info at acme dot com" - plain words read like any sentence ("find us at acme dot com"),
+// so they only count straight after an email cue, and never with a pronoun as the local part
+const EMAIL_CUE = String.raw`\b(?:e-?mail|contact)(?:\s+(?:us|me|them))?(?:\s+(?:at|on))?[\s:=-]*`;
+const WORD_AT_PATTERN = new RegExp(
+  `(${EMAIL_CUE})(?!(?:us|me|them|at|on)\\b)${LOCAL_PART}${WORD_AT}${LABEL}(?:(?:${WORD_DOT}|${BRACKET_DOT})${LABEL})+`,
+  'gi'
+);
+
+const AT_SEPARATOR = new RegExp(`${BRACKET_AT}|${WORD_AT}`, 'i');
+const DOT_SEPARATOR = new RegExp(`${BRACKET_DOT}|${WORD_DOT}`, 'gi');
+
+// Cloudflare email protection: data-cfemail="..." or /cdn-cgi/l/email-protection#...
+const CLOUDFLARE_PATTERN = /data-cfemail=["']?([0-9a-f]+)["']?|\/cdn-cgi\/l\/email-protection#([0-9a-f]+)/gi;
+
+// Numeric and named HTML entities for "@" and "."
+const ENTITY_PATTERN = /&#(?:64|x40);?|&commat;|&#(?:46|x2e);?|&period;/gi;
+
+const MAILTO_PATTERN = /mailto:([^\s"'()<>\]]+)/gi;
+
+/**
+ * Decode a Cloudflare-protected email: the first byte is an XOR key for the rest
+ */
+export function decodeCloudflareEmail(hex: string): string {
+  const key = parseInt(hex.substring(0, 2), 16);
+  let email = '';
+  for (let i = 2; i < hex.length; i += 2) {
+    email += String.fromCharCode(parseInt(hex.substring(i, i + 2), 16) ^ key);
+  }
+  return email;
+}
+
+function collapseSeparators(match: string): string {
+  return match.replace(AT_SEPARATOR, '@').replace(DOT_SEPARATOR, '.');
+}
+
+function decodeEntities(content: string): string {
+  return content.replace(ENTITY_PATTERN, entity =>
+    /64|x40|commat/i.test(entity) ? '@' : '.'
+  );
+}
+
+/**
+ * Un-reverse mailto: addresses written backwards (shown the right way round with CSS)
+ * e.g. "mailto:moc.emca@ofni" -> "mailto:info@acme.com"
+ */
+function unreverseMailto(content: string): string {
+  return content.replace(MAILTO_PATTERN, (match, address: string) => {
+    if (STRICT_EMAIL_PATTERN.test(address)) return match;
+    const reversed = address.split('').reverse().join('');
+    return STRICT_EMAIL_PATTERN.test(reversed) ? `mailto:${reversed}` : match;
+  });
+}
+
+/**
+ * Rewrite obfuscated addresses in content as plain user@host.tld
+ * Safe to run on any page content - text that isn't an address is left alone
+ */
+export function deobfuscateContent(content: string): string {
+  let normalized = content.replace(CLOUDFLARE_PATTERN, (match, attrHex?: string, linkHex?: string) => {
+    const email = decodeCloudflareEmail(attrHex || linkHex || '');
+    return STRICT_EMAIL_PATTERN.test(email) ? ` ${email} ` : match;
+  });
+
+  normalized = decodeEntities(normalized);
+  normalized = unreverseMailto(normalized);
+  normalized = normalized.replace(BRACKET_AT_PATTERN, collapseSeparators);
+  normalized = normalized.replace(BRACKET_DOT_PATTERN, collapseSeparators);
+  // The cue can itself contain " at " ("email us at ..."), so only the address after it is collapsed
+  normalized = normalized.replace(WORD_AT_PATTERN, (match, cue: string) => cue + collapseSeparators(match.slice(cue.length)));
+
+  return normalized;
+}
+
+/**
+ * Find every address in content, flagging the ones only visible after de-obfuscation
+ */
+export function extractEmailCandidates(content: string): EmailCandidate[] {
+  const literal = new Set(content.match(EMAIL_PATTERN) || []);
+  const found = [...new Set(deobfuscateContent(content).match(EMAIL_PATTERN) || [])];
+
+  return found.map(email => ({
+    email,
+    deobfuscated: !literal.has(email),
+  }));
+}
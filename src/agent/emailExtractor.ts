@@ -3,23 +3,26 @@
  * Extracts and validates email addresses from crawled website content
  */
 
-import type { EmailExtractionResult } from './types.js';
+import type { EmailCandidate, EmailExtractionResult } from './types.js';
 import { extractDomain } from './crawl.js';
+import { extractEmailCandidates } from './emailDeobfuscator.js';
+import { isRoleAccount } from './emailVerification.js';
 
 /**
- * Extract emails from page content
+ * Extract email candidates from page content, including de-obfuscated addresses
  */
-export function extractEmailsFromContent(content: string): string[] {
-  // Comprehensive email regex pattern
-  const emailPattern = /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g;
-  const matches = content.match(emailPattern) || [];
-
+export function extractEmailCandidatesFromContent(content: string): EmailCandidate[] {
   // Deduplicate and filter out common false positives
-  const uniqueEmails = [...new Set(matches)]
-    .filter(email => !isGenericEmail(email))
-    .filter(email => isValidEmailFormat(email));
+  return extractEmailCandidates(content)
+    .filter(candidate => !isGenericEmail(candidate.email))
+    .filter(candidate => isValidEmailFormat(candidate.email));
+}
 
-  return uniqueEmails;
+/**
+ * Extract emails from page content
+ */
+export function extractEmailsFromContent(content: string): string[] {
+  return extractEmailCandidatesFromContent(content).map(candidate => candidate.email);
 }
 
 /**
@@ -83,10 +86,12 @@ function calculateEmailScore(email: string, domain: string): number {
     score += 50;
   }
 
-  // Prefer personal-looking emails
-  const personalPatterns = ['hello', 'hi', 'info', 'contact', 'sales', 'team'];
-  if (personalPatterns.some(p => localPart.includes(p))) {
-    score += 20;
+  // A named person beats a shared inbox; a shared inbox still beats an unknown address
+  if (isRoleAccount(emailLower)) {
+    score += 5;
+  } else if (/^[a-z]+[._][a-z]+$/.test(localPart) || /^[a-z]{4,12}$/.test(localPart)) {
+    // Name-like patterns (first.last, f.last, first_last, firstname)
+    score += 25;
   }
 
   // Prefer shorter local parts (likely real names)
@@ -94,11 +99,6 @@ function calculateEmailScore(email: string, domain: string): number {
     score += 10;
   }
 
-  // Bonus for name-like patterns (first.last, firstlast)
-  if (/^[a-z]+\.[a-z]+$/.test(localPart) || /^[a-z]{4,12}$/.test(localPart)) {
-    score += 15;
-  }
-
   return score;
 }
 
@@ -109,15 +109,16 @@ export function analyzeAndExtractEmail(
   content: string,
   websiteUrl: string
 ): EmailExtractionResult {
-  const emails = extractEmailsFromContent(content);
+  const candidates = extractEmailCandidatesFromContent(content);
   const domain = extractDomain(websiteUrl);
-  const rankedEmails = rankEmails(emails, domain);
+  const rankedEmails = rankEmails(candidates.map(c => c.email), domain);
 
   if (rankedEmails.length === 0) {
     return {
       emails: [],
       source: 'page_content',
       confidence: 'low',
+      candidates: [],
     };
   }
 
@@ -135,5 +136,50 @@ export function analyzeAndExtractEmail(
     primaryEmail,
     source: 'page_content',
     confidence,
+    candidates: rankedEmails.map(email => candidates.find(c => c.email === email)!),
+  };
+}
+
+/**
+ * Check whether an email's domain is the site's own domain (or a subdomain of it)
+ */
+export function isSameDomainEmail(email: string, domain: string): boolean {
+  const emailDomain = email.split('@')[1]?.toLowerCase() || '';
+  const siteDomain = domain.replace(/^www\./, '').toLowerCase();
+  return emailDomain === siteDomain || emailDomain.endsWith(`.${siteDomain}`);
+}
+
+/**
+ * Try to settle email extraction without an LLM call
+ * Only returns a result when the top-ranked address sits on the site's own
+ * domain and was written out plainly; anything ambiguous (no hits, off-domain hits,
+ * addresses only recovered by de-obfuscation) returns null so the caller can fall back to Claude
+ */
+export function extractEmailDeterministically(
+  content: string,
+  websiteUrl: string
+): EmailExtractionResult | null {
+  const result = analyzeAndExtractEmail(content, websiteUrl);
+  const domain = extractDomain(websiteUrl);
+
+  if (!result.primaryEmail || !isSameDomainEmail(result.primaryEmail, domain)) {
+    return null;
+  }
+
+  // A de-obfuscated "address" may be a sentence that happened to fit the pattern - let Claude confirm it
+  if (result.candidates?.find(c => c.email === result.primaryEmail)?.deobfuscated) {
+    return null;
+  }
+
+  // Off-domain addresses are usually agencies, platforms or partners; decoded ones aren't settled either
+  const emails = result.emails.filter(email =>
+    isSameDomainEmail(email, domain) && !result.candidates?.find(c => c.email === email)?.deobfuscated
+  );
+
+  return {
+    ...result,
+    emails,
+    candidates: result.candidates?.filter(c => emails.includes(c.email)),
+    confidence: 'high',
   };
 }
@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Lead } from './types.js';
+import {
+  applyEmailPattern,
+  detectEmailPattern,
+  findNamesInContent,
+  getLeadNames,
+  inferEmails,
+  inferEmailsForLead,
+  parseFullName,
+} from './emailInference.js';
+
+test('names are split into ASCII first and last, without honorifics or suffixes', () => {
+  assert.deepEqual(parseFullName('Dr. Jane Q. Doe, PhD'), { first: 'jane', last: 'doe' });
+  assert.deepEqual(parseFullName('Seán O’Neill'), { first: 'sean', last: 'oneill' });
+  assert.deepEqual(parseFullName('Cher'), { first: 'cher' });
+  assert.equal(parseFullName('Mr.'), null);
+});
+
+test('each pattern builds its local part, and patterns needing a last name need one', () => {
+  const jane = { first: 'jane', last: 'doe' };
+  assert.equal(applyEmailPattern('first.last', jane), 'jane.doe');
+  assert.equal(applyEmailPattern('flast', jane), 'jdoe');
+  assert.equal(applyEmailPattern('f.last', jane), 'j.doe');
+  assert.equal(applyEmailPattern('firstl', jane), 'janed');
+  assert.equal(applyEmailPattern('first', { first: 'cher' }), 'cher');
+  assert.equal(applyEmailPattern('flast', { first: 'cher' }), null);
+});
+
+test('a known address is matched against known names to find the pattern', () => {
+  const names = [{ first: 'jane', last: 'doe' }, { first: 'john', last: 'smith' }];
+  assert.equal(detectEmailPattern(['jsmith@acme.com'], names, 'www.acme.com'), 'flast');
+  assert.equal(detectEmailPattern(['jane@mail.acme.com'], names, 'acme.com'), 'first');
+  assert.equal(detectEmailPattern(['jsmith@other.com'], names, 'acme.com'), null);
+});
+
+test('without a name to match, the shape of the local part decides', () => {
+  assert.equal(detectEmailPattern(['alex.morgan@acme.com'], [], 'acme.com'), 'first.last');
+  assert.equal(detectEmailPattern(['alex_morgan@acme.com'], [], 'acme.com'), 'first_last');
+  assert.equal(detectEmailPattern(['a.morgan@acme.com'], [], 'acme.com'), 'f.last');
+  assert.equal(detectEmailPattern(['info@acme.com'], [], 'acme.com'), null);
+});
+
+test('a detected pattern ranks first; otherwise the common defaults apply, always low confidence', () => {
+  const jane = [{ first: 'jane', last: 'doe' }];
+
+  const guessed = inferEmails(jane, 'https://www.acme.com');
+  assert.deepEqual(guessed.emails.slice(0, 3), ['jane.doe@acme.com', 'jdoe@acme.com', 'jane@acme.com']);
+  assert.equal(guessed.source, 'inferred');
+  assert.equal(guessed.confidence, 'low');
+
+  const learned = inferEmails(jane, 'acme.com', ['bob_jones@acme.com']);
+  assert.equal(learned.primaryEmail, 'jane_doe@acme.com');
+  assert.equal(new Set(learned.emails).size, learned.emails.length);
+});
+
+test('names come from the lead\'s columns first, then from role lines on the site', () => {
+  const lead = { website: 'acme.com', extraFields: { 'First_Name': 'Jane', 'Last Name': 'Doe' } } as unknown as Lead;
+  assert.deepEqual(getLeadNames(lead), [{ first: 'jane', last: 'doe' }]);
+
+  const content = 'Meet The Team\nJohn Smith\nFounder & CEO\nGreen Widgets are our best seller';
+  assert.deepEqual(findNamesInContent(content), [{ first: 'john', last: 'smith' }]);
+
+  assert.equal(inferEmailsForLead(lead, content).primaryEmail, 'jane.doe@acme.com');
+  assert.equal(inferEmailsForLead({ website: 'acme.com' } as Lead, content).primaryEmail, 'john.smith@acme.com');
+});
@@ -0,0 +1,242 @@
+/**
+ * Email pattern inference module
+ * Builds candidate addresses from people's names when a site lists its team
+ * but publishes no address. Results are guesses - always low confidence.
+ */
+
+import type { EmailExtractionResult, Lead } from './types.js';
+import { extractDomain } from './crawl.js';
+
+export type EmailPattern =
+  | 'first.last'
+  | 'flast'
+  | 'first'
+  | 'firstlast'
+  | 'first_last'
+  | 'f.last'
+  | 'firstl'
+  | 'last';
+
+export interface PersonName {
+  first: string;
+  last?: string;
+}
+
+// Most common B2B patterns first
+const PATTERN_ORDER: EmailPattern[] = [
+  'first.last', 'flast', 'first', 'firstlast', 'first_last', 'f.last', 'firstl', 'last',
+];
+
+export const FIRST_NAME_KEYS = ['first name', 'firstname', 'first', 'given name', 'forename'];
+export const LAST_NAME_KEYS = ['last name', 'lastname', 'last', 'surname', 'family name'];
+
+const HONORIFICS = new Set(['mr', 'mrs', 'ms', 'miss', 'dr', 'prof', 'sir', 'dame']);
+const SUFFIXES = new Set(['jr', 'sr', 'ii', 'iii', 'iv', 'phd', 'mba', 'cpa']);
+
+// Job titles that mark a nearby capitalised pair of words as a person's name
+export const ROLE_PATTERN = /\b(?:founder|co-founder|owner|ceo|cto|cfo|coo|cmo|chief|president|director|partner|principal|head of|manager|lead|vp|vice president|chair(?:man|woman|person)?)\b/i;
+const NAME_PATTERN = /\b([A-Z][a-z]+(?:-[A-Z][a-z]+)?)\s+(?:[A-Z]\.\s+)?([A-Z][a-z]*(?:['’-][A-Z]?[a-z]+)*)\b/g;
+// Capitalised pairs that look like names but aren't
+const NON_NAME_WORDS = new Set([
+  'about', 'our', 'the', 'meet', 'team', 'contact', 'us', 'head', 'office', 'chief', 'vice',
+  'president', 'director', 'managing', 'sales', 'marketing', 'operations', 'founder', 'executive',
+  'officer', 'partner', 'senior', 'lead', 'read', 'more', 'view', 'profile', 'learn',
+]);
+
+/**
+ * Normalise a name part for use in an address: lowercase ASCII letters only
+ */
+function normalizeNamePart(part: string): string {
+  return part
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z]/g, '');
+}
+
+/**
+ * Split a full name into first and last, dropping honorifics and suffixes
+ */
+export function parseFullName(fullName: string): PersonName | null {
+  const parts = fullName
+    .split(/[\s,]+/)
+    .map(p => p.replace(/\./g, ''))
+    .filter(p => p && !HONORIFICS.has(p.toLowerCase()) && !SUFFIXES.has(p.toLowerCase()))
+    .map(normalizeNamePart)
+    .filter(Boolean);
+
+  if (parts.length === 0) return null;
+  if (parts.length === 1) return { first: parts[0] };
+
+  return { first: parts[0], last: parts[parts.length - 1] };
+}
+
+/**
+ * Collect names from the lead itself: the name column or first/last name extra fields
+ */
+export function getLeadNames(lead: Lead): PersonName[] {
+  const names: PersonName[] = [];
+
+  const fields = Object.entries(lead.extraFields || {});
+  const findField = (keys: string[]) =>
+    fields.find(([key]) => keys.includes(normalizeFieldKey(key)))?.[1];
+
+  const first = findField(FIRST_NAME_KEYS);
+  const last = findField(LAST_NAME_KEYS);
+  if (first) {
+    const parsed = parseFullName(last ? `${first} ${last}` : first);
+    if (parsed) names.push(parsed);
+  }
+
+  if (lead.name) {
+    const parsed = parseFullName(lead.name);
+    if (parsed) names.push(parsed);
+  }
+
+  return dedupeNames(names);
+}
+
+/**
+ * Find people's names on an About/Team page
+ * Only lines that also mention a role count, to avoid picking up product or place names
+ */
+export function findNamesInContent(content: string): PersonName[] {
+  const names: PersonName[] = [];
+  const lines = content.split('\n');
+
+  lines.forEach((line, i) => {
+    // Team pages often put the role on the line after the name
+    const context = `${line} ${lines[i + 1] || ''}`;
+    if (!ROLE_PATTERN.test(context)) return;
+
+    for (const fullName of matchPersonNames(line)) {
+      const parsed = parseFullName(fullName);
+      if (parsed?.last) names.push(parsed);
+    }
+  });
+
+  return dedupeNames(names);
+}
+
+/**
+ * Capitalised first/last pairs in a line that could be a person ("Jane Doe", "Seán O'Neill")
+ */
+export function matchPersonNames(line: string): string[] {
+  return [...line.matchAll(NAME_PATTERN)]
+    .filter(([, first, last]) => !NON_NAME_WORDS.has(first.toLowerCase()) && !NON_NAME_WORDS.has(last.toLowerCase()))
+    .map(match => match[0]);
+}
+
+/**
+ * Normalise an extraFields key for matching against FIRST_NAME_KEYS / LAST_NAME_KEYS
+ */
+export function normalizeFieldKey(key: string): string {
+  return key.toLowerCase().replace(/[_-]/g, ' ').trim();
+}
+
+function dedupeNames(names: PersonName[]): PersonName[] {
+  const seen = new Set<string>();
+  return names.filter(name => {
+    const key = `${name.first} ${name.last || ''}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Build the local part of an address for a name, or null if the pattern needs a last name
+ */
+export function applyEmailPattern(pattern: EmailPattern, name: PersonName): string | null {
+  const { first, last } = name;
+  if (pattern === 'first') return first;
+  if (!last) return null;
+
+  switch (pattern) {
+    case 'first.last': return `${first}.${last}`;
+    case 'flast': return `${first[0]}${last}`;
+    case 'firstlast': return `${first}${last}`;
+    case 'first_last': return `${first}_${last}`;
+    case 'f.last': return `${first[0]}.${last}`;
+    case 'firstl': return `${first}${last[0]}`;
+    case 'last': return last;
+  }
+}
+
+/**
+ * Work out the company's address pattern from addresses already seen on its domain
+ * Matches known addresses against known names first, then falls back to the shape
+ * of the local part ("a.b" is almost always first.last)
+ */
+export function detectEmailPattern(
+  knownEmails: string[],
+  names: PersonName[],
+  domain: string
+): EmailPattern | null {
+  const domainBase = domain.replace(/^www\./, '').toLowerCase();
+  const localParts = knownEmails
+    .map(email => email.toLowerCase().split('@'))
+    .filter(([, emailDomain]) => emailDomain === domainBase || emailDomain?.endsWith(`.${domainBase}`))
+    .map(([localPart]) => localPart);
+
+  for (const localPart of localParts) {
+    for (const name of names) {
+      const pattern = PATTERN_ORDER.find(p => applyEmailPattern(p, name) === localPart);
+      if (pattern) return pattern;
+    }
+  }
+
+  for (const localPart of localParts) {
+    if (/^[a-z]{2,}\.[a-z]{2,}$/.test(localPart)) return 'first.last';
+    if (/^[a-z]{2,}_[a-z]{2,}$/.test(localPart)) return 'first_last';
+    if (/^[a-z]\.[a-z]{2,}$/.test(localPart)) return 'f.last';
+  }
+
+  return null;
+}
+
+/**
+ * Build candidate addresses for a set of names, best guess first
+ * A pattern revealed by other addresses on the domain ranks ahead of the defaults
+ */
+export function inferEmails(
+  names: PersonName[],
+  websiteUrl: string,
+  knownEmails: string[] = []
+): EmailExtractionResult {
+  const domain = extractDomain(websiteUrl);
+  const detected = detectEmailPattern(knownEmails, names, domain);
+  const patterns = detected
+    ? [detected, ...PATTERN_ORDER.filter(p => p !== detected)]
+    : PATTERN_ORDER;
+
+  const emails: string[] = [];
+  for (const name of names) {
+    for (const pattern of patterns) {
+      const localPart = applyEmailPattern(pattern, name);
+      if (!localPart) continue;
+      const email = `${localPart}@${domain}`;
+      if (!emails.includes(email)) emails.push(email);
+    }
+  }
+
+  return {
+    emails,
+    primaryEmail: emails[0],
+    source: 'inferred',
+    confidence: 'low',
+  };
+}
+
+/**
+ * Infer addresses for a lead: names from the lead's own columns win over names found on the site
+ */
+export function inferEmailsForLead(
+  lead: Lead,
+  content: string,
+  knownEmails: string[] = []
+): EmailExtractionResult {
+  const leadNames = getLeadNames(lead);
+  const names = leadNames.length > 0 ? leadNames : findNamesInContent(content);
+  return inferEmails(names, lead.website, knownEmails);
+}
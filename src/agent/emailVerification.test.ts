@@ -0,0 +1,86 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createStubResolver, verifyEmail, verifyEmails } from './emailVerification.js';
+
+const resolver = createStubResolver(
+  {
+    'acme.com': [{ exchange: 'mx2.acme.com', priority: 20 }, { exchange: 'mx1.acme.com', priority: 10 }],
+    'nomail.com': [{ exchange: '', priority: 0 }],
+    'dotmx.com': [{ exchange: '.', priority: 0 }],
+    'gateway.com': [{ exchange: 'eu-smtp-inbound-1.mimecast.com', priority: 10 }],
+    'broken.com': new Error('queryMx ESERVFAIL broken.com'),
+    'mailinator.com': [{ exchange: 'mail.mailinator.com', priority: 10 }],
+  },
+  {
+    'bare.com': ['203.0.113.7'],
+    'flaky.com': new Error('queryA ETIMEOUT flaky.com'),
+  }
+);
+
+test('an address on a domain with MX records is deliverable, hosts in priority order', async () => {
+  const verdict = await verifyEmail('jane.doe@acme.com', resolver);
+  assert.equal(verdict.status, 'deliverable');
+  assert.equal(verdict.hasMx, true);
+  assert.deepEqual(verdict.mxHosts, ['mx1.acme.com', 'mx2.acme.com']);
+});
+
+test('a null MX is undeliverable whether written as "" or "."', async () => {
+  for (const email of ['jane@nomail.com', 'jane@dotmx.com']) {
+    const verdict = await verifyEmail(email, resolver);
+    assert.equal(verdict.status, 'undeliverable', email);
+    assert.equal(verdict.hasMx, false, email);
+    assert.match(verdict.reason || '', /null MX/);
+  }
+});
+
+test('no MX but an A/AAAA record falls back to the implicit MX and is risky, not undeliverable', async () => {
+  const verdict = await verifyEmail('jane@bare.com', resolver);
+  assert.equal(verdict.status, 'risky');
+  assert.equal(verdict.hasMx, false);
+});
+
+test('no MX and no address records is undeliverable', async () => {
+  const verdict = await verifyEmail('jane@nowhere.com', resolver);
+  assert.equal(verdict.status, 'undeliverable');
+  assert.equal(verdict.hasMx, false);
+});
+
+test('a failed MX or address lookup is unknown rather than undeliverable', async () => {
+  const mxFailure = await verifyEmail('jane@broken.com', resolver);
+  assert.equal(mxFailure.status, 'unknown');
+  assert.equal(mxFailure.hasMx, null);
+  assert.match(mxFailure.reason || '', /DNS lookup failed: .*ESERVFAIL/);
+
+  const addressFailure = await verifyEmail('jane@flaky.com', resolver);
+  assert.equal(addressFailure.status, 'unknown');
+  assert.match(addressFailure.reason || '', /ETIMEOUT/);
+});
+
+test('syntax, disposable, catch-all gateways, guesses and role accounts', async () => {
+  assert.equal((await verifyEmail('not-an-email', resolver)).status, 'undeliverable');
+  assert.equal((await verifyEmail('jane@mailinator.com', resolver)).status, 'undeliverable');
+
+  const gateway = await verifyEmail('jane@gateway.com', resolver);
+  assert.equal(gateway.status, 'risky');
+  assert.equal(gateway.catchAllSuspected, true);
+
+  const guessed = await verifyEmail('jane@acme.com', resolver, { inferred: true });
+  assert.equal(guessed.status, 'risky');
+  assert.equal(guessed.catchAllSuspected, true);
+
+  const role = await verifyEmail('info@acme.com', resolver);
+  assert.equal(role.status, 'risky');
+  assert.equal(role.roleAccount, true);
+});
+
+test('verifyEmails looks each domain up once', async () => {
+  let mxLookups = 0;
+  const counting = {
+    resolveMx: async (domain: string) => { mxLookups++; return resolver.resolveMx(domain); },
+    resolveAddress: resolver.resolveAddress,
+  };
+
+  const verdicts = await verifyEmails(['a@acme.com', 'b@acme.com', 'c@bare.com'], counting);
+  assert.equal(mxLookups, 2);
+  assert.deepEqual(Object.keys(verdicts), ['a@acme.com', 'b@acme.com', 'c@bare.com']);
+});
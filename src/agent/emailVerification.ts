@@ -0,0 +1,175 @@
+/**
+ * Email deliverability module
+ * Offline checks only - syntax, MX records, disposable and role addresses.
+ * No SMTP probing, so a catch-all domain can only be suspected, never proven.
+ * DNS goes through a resolver interface so tests can use a local stub.
+ */
+
+import type { DeliverabilityVerdict, MxRecord } from './types.js';
+
+export interface DnsResolver {
+  // Resolve to [] when the domain exists but has no MX; throw when the lookup itself fails
+  resolveMx: (domain: string) => Promise<MxRecord[]>;
+  // A and AAAA addresses, for domains with no MX; same [] / throw contract
+  resolveAddress: (domain: string) => Promise<string[]>;
+}
+
+const STRICT_EMAIL_PATTERN = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
+
+const ROLE_PREFIXES = new Set([
+  'info', 'hello', 'hi', 'contact', 'sales', 'support', 'help', 'admin', 'office', 'team',
+  'enquiries', 'enquiry', 'inquiries', 'marketing', 'accounts', 'billing', 'careers', 'jobs',
+  'hr', 'press', 'media', 'service', 'reception', 'bookings', 'orders', 'general', 'mail',
+]);
+
+const DISPOSABLE_DOMAINS = new Set([
+  'mailinator.com', 'guerrillamail.com', 'guerrillamail.net', '10minutemail.com', 'tempmail.com',
+  'temp-mail.org', 'throwawaymail.com', 'yopmail.com', 'getnada.com', 'trashmail.com',
+  'sharklasers.com', 'dispostable.com', 'maildrop.cc', 'fakeinbox.com', 'mintemail.com',
+]);
+
+// Security gateways that accept every recipient and bounce later
+const CATCH_ALL_MX_PATTERN = /mimecast|pphosted|barracudanetworks|messagelabs|mailcontrol|iphmx|trendmicro|spamtitan/i;
+
+/**
+ * Check whether an address is a shared inbox rather than a person
+ */
+export function isRoleAccount(email: string): boolean {
+  const localPart = email.split('@')[0].toLowerCase();
+  return ROLE_PREFIXES.has(localPart.split(/[.+_-]/)[0]);
+}
+
+/**
+ * Check whether an address is on a known throwaway-mail domain
+ */
+export function isDisposableDomain(domain: string): boolean {
+  return DISPOSABLE_DOMAINS.has(domain.toLowerCase());
+}
+
+/**
+ * Give an email a deliverability verdict
+ * `inferred` addresses were guessed from a name, so an accepting server proves nothing
+ */
+export async function verifyEmail(
+  email: string,
+  resolver: DnsResolver,
+  options: { inferred?: boolean } = {}
+): Promise<DeliverabilityVerdict> {
+  const syntaxValid = STRICT_EMAIL_PATTERN.test(email);
+  const domain = email.split('@')[1]?.toLowerCase() || '';
+  const roleAccount = syntaxValid && isRoleAccount(email);
+  const disposable = syntaxValid && isDisposableDomain(domain);
+
+  const verdict: DeliverabilityVerdict = {
+    status: 'unknown',
+    syntaxValid,
+    hasMx: null,
+    catchAllSuspected: false,
+    disposable,
+    roleAccount,
+  };
+
+  if (!syntaxValid) {
+    return { ...verdict, status: 'undeliverable', reason: 'Invalid email syntax' };
+  }
+
+  const lookupFailed = (error: unknown): DeliverabilityVerdict => ({
+    ...verdict,
+    reason: `DNS lookup failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+  });
+
+  let records: MxRecord[];
+  try {
+    records = await resolver.resolveMx(domain);
+  } catch (error) {
+    return lookupFailed(error);
+  }
+
+  // A null MX ("0 .", RFC 7505) is the domain saying outright that it accepts no mail
+  const nullMx = records.length > 0 && records.every(r => !r.exchange || r.exchange === '.');
+  const mxHosts = [...records]
+    .sort((a, b) => a.priority - b.priority)
+    .map(r => r.exchange.toLowerCase())
+    .filter(host => host && host !== '.');
+  const hasMx = mxHosts.length > 0;
+
+  if (nullMx) {
+    return { ...verdict, hasMx, mxHosts, status: 'undeliverable', reason: 'Domain publishes a null MX (accepts no mail)' };
+  }
+
+  // No MX at all: mail falls back to the domain's own A/AAAA host (implicit MX, RFC 5321)
+  let implicitMx = false;
+  if (!hasMx) {
+    try {
+      implicitMx = (await resolver.resolveAddress(domain)).length > 0;
+    } catch (error) {
+      return lookupFailed(error);
+    }
+  }
+
+  const catchAllSuspected = (hasMx || implicitMx) && (!!options.inferred || mxHosts.some(host => CATCH_ALL_MX_PATTERN.test(host)));
+
+  const result: DeliverabilityVerdict = { ...verdict, hasMx, catchAllSuspected, mxHosts };
+
+  if (!hasMx && !implicitMx) return { ...result, status: 'undeliverable', reason: 'Domain has no MX or address records' };
+  if (disposable) return { ...result, status: 'undeliverable', reason: 'Disposable email domain' };
+  if (catchAllSuspected) {
+    return {
+      ...result,
+      status: 'risky',
+      reason: options.inferred ? 'Guessed address - server may accept anything' : 'Mail gateway likely accepts all recipients',
+    };
+  }
+  if (!hasMx) return { ...result, status: 'risky', reason: 'No MX records - mail would go to the domain\'s own host' };
+  if (roleAccount) return { ...result, status: 'risky', reason: 'Role account, not a person' };
+
+  return { ...result, status: 'deliverable' };
+}
+
+/**
+ * Verify several addresses, looking each domain up once
+ */
+export async function verifyEmails(
+  emails: string[],
+  resolver: DnsResolver,
+  options: { inferred?: boolean } = {}
+): Promise<Record<string, DeliverabilityVerdict>> {
+  const lookups = new Map<string, Promise<MxRecord[]>>();
+  const addressLookups = new Map<string, Promise<string[]>>();
+  const cachedResolver: DnsResolver = {
+    resolveMx: (domain) => {
+      if (!lookups.has(domain)) lookups.set(domain, resolver.resolveMx(domain));
+      return lookups.get(domain)!;
+    },
+    resolveAddress: (domain) => {
+      if (!addressLookups.has(domain)) addressLookups.set(domain, resolver.resolveAddress(domain));
+      return addressLookups.get(domain)!;
+    },
+  };
+
+  const verdicts: Record<string, DeliverabilityVerdict> = {};
+  for (const email of emails) {
+    verdicts[email] = await verifyEmail(email, cachedResolver, options);
+  }
+  return verdicts;
+}
+
+/**
+ * Resolver backed by fixed tables - for tests and offline runs
+ * Domains missing from a table have no records of that kind; an Error in a table is thrown as a failed lookup
+ */
+export function createStubResolver(
+  records: Record<string, MxRecord[] | Error>,
+  addresses: Record<string, string[] | Error> = {}
+): DnsResolver {
+  const lookup = async <T>(table: Record<string, T[] | Error>, domain: string): Promise<T[]> => {
+    const entry = table[domain.toLowerCase()];
+    if (entry instanceof Error) throw entry;
+    return entry || [];
+  };
+
+  return {
+    resolveMx: domain => lookup(records, domain),
+    resolveAddress: domain => lookup(addresses, domain),
+  };
+}
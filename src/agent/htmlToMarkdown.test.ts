@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { htmlToMarkdown } from './htmlToMarkdown.js';
+import { extractEmailCandidates } from './emailDeobfuscator.js';
+
+// Cloudflare's encoding: a key byte, then each character XORed with it, all as hex
+const cfEncode = (email: string, key = 0x42) =>
+  [key, ...[...email].map(c => c.charCodeAt(0) ^ key)].map(b => b.toString(16).padStart(2, '0')).join('');
+
+const page = `<!doctype html>
+<html>
+<head><title>Acme &amp; Co</title><meta name="description" content="We make widgets"></head>
+<body>
+  <nav><a href="/about">About</a><a href="/team">Team</a></nav>
+  <main>
+    <h1>Welcome</h1>
+    <p>We build <strong>widgets</strong> for <em>everyone</em>.</p>
+    <ul><li>Fast</li><li>Cheap</li></ul>
+    <p>Write to <a href="mailto:sales@acme.com">sales@acme.com</a></p>
+    <script>var tracking = true;</script>
+  </main>
+  <footer>Email: <a href="/cdn-cgi/l/email-protection" data-cfemail="${cfEncode('jane@acme.com')}">[email&#160;protected]</a> &middot; info&#64;acme.com</footer>
+</body>
+</html>`;
+
+test('keeps the main content and footer as markdown, with title, description and links', () => {
+  const result = htmlToMarkdown(page, 'https://acme.com/');
+  assert.equal(result.title, 'Acme & Co');
+  assert.equal(result.description, 'We make widgets');
+  assert.match(result.markdown, /^# Welcome/);
+  assert.match(result.markdown, /We build \*\*widgets\*\* for _everyone_\./);
+  assert.match(result.markdown, /- Fast\n- Cheap/);
+  assert.doesNotMatch(result.markdown, /tracking|About/);
+  assert.deepEqual(result.links, ['https://acme.com/about', 'https://acme.com/team', 'https://acme.com/cdn-cgi/l/email-protection']);
+});
+
+test('mailto links stay as links and their address stays literal', () => {
+  const { markdown } = htmlToMarkdown(page, 'https://acme.com/');
+  assert.match(markdown, /\[sales@acme\.com\]\(mailto:sales@acme\.com\)/);
+  assert.deepEqual(extractEmailCandidates(markdown).find(c => c.email === 'sales@acme.com'), { email: 'sales@acme.com', deobfuscated: false });
+});
+
+test('Cloudflare-protected and entity-encoded addresses are left for the de-obfuscator to flag', () => {
+  const { markdown } = htmlToMarkdown(page, 'https://acme.com/');
+  assert.doesNotMatch(markdown, /jane@acme\.com/);
+  assert.match(markdown, /info&#64;acme\.com/);
+
+  const candidates = extractEmailCandidates(markdown);
+  assert.deepEqual(candidates.find(c => c.email === 'jane@acme.com'), { email: 'jane@acme.com', deobfuscated: true });
+  assert.deepEqual(candidates.find(c => c.email === 'info@acme.com'), { email: 'info@acme.com', deobfuscated: true });
+});
+
+test('without <main> the body is used, minus its header', () => {
+  const { markdown } = htmlToMarkdown('<body><header>Logo</header><div>Hello <br>world</div></body>');
+  assert.equal(markdown, 'Hello\nworld');
+});
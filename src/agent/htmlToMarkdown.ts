@@ -0,0 +1,159 @@
+/**
+ * HTML to markdown module
+ * A small readability-style converter for the native scraper: drops page chrome,
+ * keeps the main content (plus the footer, where contact details usually live)
+ * and turns the remaining markup into plain markdown. No DOM required.
+ */
+
+export interface HtmlPage {
+  markdown: string;
+  title?: string;
+  description?: string;
+  links: string[];  // Every link on the page, navigation included, resolved against baseUrl
+}
+
+// Elements whose content is never useful text
+const REMOVED_ELEMENTS = ['script', 'style', 'noscript', 'svg', 'template', 'iframe', 'canvas', 'head'];
+// Page chrome that would otherwise repeat on every page
+const CHROME_ELEMENTS = ['nav', 'aside', 'form', 'dialog'];
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '–', mdash: '—',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', hellip: '…', copy: '©', reg: '®',
+  trade: '™', pound: '£', euro: '€', bull: '•', middot: '·',
+};
+
+function removeElements(html: string, tags: string[]): string {
+  let result = html;
+  for (const tag of tags) {
+    result = result.replace(new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?<\\/${tag}>`, 'gi'), ' ');
+  }
+  return result;
+}
+
+function findElement(html: string, pattern: string): string | null {
+  const match = html.match(new RegExp(`<(${pattern})\\b[^>]*>([\\s\\S]*?)<\\/\\1>`, 'i'));
+  return match ? match[2] : null;
+}
+
+function getAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return match ? (match[1] ?? match[2] ?? match[3]) : undefined;
+}
+
+/**
+ * Decode HTML entities, leaving obfuscated "@"/"." entities for the de-obfuscator to flag
+ */
+export function decodeEntities(text: string): string {
+  return text
+    .replace(/&#(\d+);/g, (match, code: string) =>
+      code === '64' || code === '46' ? match : String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&#x([0-9a-f]+);/gi, (match, code: string) =>
+      /^(40|2e)$/i.test(code) ? match : String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&([a-z]+);/gi, (match, name: string) => NAMED_ENTITIES[name.toLowerCase()] ?? match);
+}
+
+function resolveUrl(href: string, baseUrl?: string): string {
+  if (!baseUrl || /^(mailto|tel):/i.test(href)) return href;
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return href;
+  }
+}
+
+/**
+ * Collect every href before the navigation is stripped, so the crawler can follow it
+ */
+function extractLinks(html: string, baseUrl?: string): string[] {
+  const links = new Set<string>();
+  for (const match of html.matchAll(/<a\b([^>]*)>/gi)) {
+    const href = getAttribute(match[1], 'href');
+    if (!href || href.startsWith('#') || /^(javascript|mailto|tel):/i.test(href)) continue;
+    links.add(resolveUrl(decodeEntities(href), baseUrl));
+  }
+  return [...links];
+}
+
+function extractMetadata(html: string): Pick<HtmlPage, 'title' | 'description'> {
+  const title = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const metaTag = html.match(/<meta\b[^>]*name\s*=\s*["']description["'][^>]*>/i)?.[0]
+    || html.match(/<meta\b[^>]*property\s*=\s*["']og:description["'][^>]*>/i)?.[0];
+  const description = metaTag ? getAttribute(metaTag, 'content') : undefined;
+
+  return {
+    title: title ? decodeEntities(title).replace(/\s+/g, ' ').trim() : undefined,
+    description: description ? decodeEntities(description).trim() : undefined,
+  };
+}
+
+/**
+ * Pick the readable part of the page: <main>/<article> if present, otherwise <body>
+ */
+function extractMainContent(html: string): string {
+  const body = findElement(html, 'body') ?? html;
+  const main = findElement(body, 'main') ?? findElement(body, 'article')
+    ?? body.match(/<(div|section)\b[^>]*role\s*=\s*["']main["'][^>]*>([\s\S]*)/i)?.[2];
+
+  if (!main) {
+    return removeElements(body, ['header']);
+  }
+
+  // Emails and addresses are usually only in the footer, so keep it alongside the main content
+  const footer = findElement(body, 'footer');
+  return footer ? `${main}\n<footer>${footer}</footer>` : main;
+}
+
+/**
+ * Convert inline and block markup to markdown, then strip what's left
+ */
+function convertMarkup(html: string, baseUrl?: string): string {
+  return html
+    // Cloudflare email protection only survives as an attribute - keep it in the form the
+    // de-obfuscator decodes, so the address is still flagged as de-obfuscated
+    .replace(/<(a|span)\b[^>]*data-cfemail\s*=\s*["']?([0-9a-f]+)["']?[^>]*>[\s\S]*?<\/\1>/gi,
+      (_match, _tag, hex: string) => ` /cdn-cgi/l/email-protection#${hex} `)
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi,
+      (_match, level: string, text: string) => `\n\n${'#'.repeat(parseInt(level, 10))} ${text.trim()}\n\n`)
+    .replace(/<a\b([^>]*)>([\s\S]*?)<\/a>/gi, (_match, attrs: string, text: string) => {
+      const href = getAttribute(attrs, 'href');
+      const label = text.replace(/<[^>]+>/g, '').trim();
+      if (!href || href.startsWith('#') || /^javascript:/i.test(href)) return label;
+      return label ? `[${label}](${resolveUrl(href, baseUrl)})` : '';
+    })
+    .replace(/<(strong|b)\b[^>]*>([\s\S]*?)<\/\1>/gi, (_match, _tag, text: string) => `**${text.trim()}**`)
+    .replace(/<(em|i)\b[^>]*>([\s\S]*?)<\/\1>/gi, (_match, _tag, text: string) => `_${text.trim()}_`)
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(td|th)>/gi, ' | ')
+    .replace(/<\/?(p|div|section|article|main|header|footer|ul|ol|tr|table|blockquote|address|figure|dl|dt|dd)\b[^>]*>/gi, '\n\n')
+    .replace(/<hr\b[^>]*>/gi, '\n\n---\n\n')
+    .replace(/<[^>]+>/g, '');
+}
+
+function tidyWhitespace(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n(- \n)+/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Convert an HTML document to readable markdown with its title and description
+ */
+export function htmlToMarkdown(html: string, baseUrl?: string): HtmlPage {
+  const metadata = extractMetadata(html);
+
+  let content = html.replace(/<!--[\s\S]*?-->/g, '');
+  content = removeElements(content, REMOVED_ELEMENTS);
+  const links = extractLinks(content, baseUrl);
+  content = extractMainContent(content);
+  content = removeElements(content, CHROME_ELEMENTS);
+
+  const markdown = tidyWhitespace(decodeEntities(convertMarkup(content, baseUrl)));
+
+  return { markdown, ...metadata, links };
+}
@@ -87,6 +87,15 @@ export function parseIcebreakerResponse(
   };
 }
 
+// Openers that read as a template rather than research
+export const GENERIC_PHRASES = [
+  'i came across your',
+  'i noticed your website',
+  'i found your company',
+  'i stumbled upon',
+  'i was browsing',
+];
+
 /**
  * Validate that an icebreaker meets quality standards
  */
@@ -98,18 +107,136 @@ export function validateIcebreaker(icebreaker: string): boolean {
   if (icebreaker.length > 300) return false;
 
   // Check for generic phrases that should be avoided
-  const genericPhrases = [
-    'i came across your',
-    'i noticed your website',
-    'i found your company',
-    'i stumbled upon',
-    'i was browsing',
-  ];
-
   const lowerIcebreaker = icebreaker.toLowerCase();
-  if (genericPhrases.some(phrase => lowerIcebreaker.includes(phrase))) {
+  if (GENERIC_PHRASES.some(phrase => lowerIcebreaker.includes(phrase))) {
     return false;
   }
 
   return true;
 }
+
+/**
+ * What a quality rule can check an icebreaker against
+ */
+export interface IcebreakerCheckContext {
+  siteContent: string;  // The dossier text the icebreaker was written from
+  companyName?: string;
+  domain?: string;
+}
+
+/**
+ * One quality rule - returns a problem to feed back to Claude, or null when the icebreaker passes
+ */
+export interface IcebreakerRule {
+  id: string;
+  check: (icebreaker: string, context: IcebreakerCheckContext) => string | null;
+}
+
+export interface IcebreakerReview {
+  passed: boolean;
+  problems: string[];
+}
+
+/**
+ * Reject any icebreaker containing one of the phrases (case-insensitive)
+ */
+export function bannedPhraseRule(id: string, phrases: string[], reason: string): IcebreakerRule {
+  return {
+    id,
+    check: (icebreaker) => {
+      const lower = icebreaker.toLowerCase();
+      const found = phrases.find(phrase => lower.includes(phrase));
+      return found ? `${reason}: "${found}"` : null;
+    },
+  };
+}
+
+export function lengthRule(minChars: number, maxChars: number, maxSentences: number): IcebreakerRule {
+  return {
+    id: 'length',
+    check: (icebreaker) => {
+      if (icebreaker.length < minChars) return `Too short (${icebreaker.length} characters) - say something specific about them`;
+      if (icebreaker.length > maxChars) return `Too long (${icebreaker.length} characters) - keep it under ${maxChars}`;
+      const sentences = icebreaker.split(/[.!?]+(?:\s|$)/).filter(part => part.trim()).length;
+      return sentences > maxSentences ? `${sentences} sentences - use at most ${maxSentences}` : null;
+    },
+  };
+}
+
+const STOPWORDS = new Set([
+  'about', 'after', 'again', 'their', 'there', 'these', 'those', 'which', 'while', 'would', 'could', 'should',
+  'where', 'being', 'really', 'great', 'impressive', 'noticed', 'company', 'business', 'team', 'work', 'working',
+  'approach', 'stands', 'industry', 'clients', 'customers', 'recent', 'recently', 'growth', 'congratulations',
+  'through', 'every', 'other', 'makes', 'seems', 'clearly', 'especially', 'particularly', 'website', 'focus',
+]);
+
+/**
+ * Words in the icebreaker that could only come from reading the site: not stopwords,
+ * not the company's own name, and at least 5 letters (or any number)
+ */
+export function specificTerms(icebreaker: string, context: IcebreakerCheckContext): string[] {
+  const nameWords = new Set(
+    `${context.companyName || ''} ${context.domain || ''}`.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean)
+  );
+
+  const words = icebreaker.toLowerCase().match(/[a-z0-9][a-z0-9'&-]*/g) || [];
+  return [...new Set(words)].filter(word =>
+    (/\d/.test(word) || word.length >= 5) && !STOPWORDS.has(word) && !nameWords.has(word)
+  );
+}
+
+/**
+ * Passes when at least one specific term in the icebreaker also appears in the site content
+ * A heuristic - it catches flattery that could be sent to anyone, not subtle invention
+ */
+export const siteSpecificRule: IcebreakerRule = {
+  id: 'site-specific',
+  check: (icebreaker, context) => {
+    if (!context.siteContent) return null;
+    const content = context.siteContent.toLowerCase();
+    const grounded = specificTerms(icebreaker, context).some(term => content.includes(term));
+    return grounded ? null : 'Nothing in it comes from their website - reference a specific product, service, project or fact from the content';
+  },
+};
+
+export const DEFAULT_ICEBREAKER_RULES: IcebreakerRule[] = [
+  lengthRule(20, 300, 2),
+  bannedPhraseRule('generic', [
+    ...GENERIC_PHRASES,
+    'i hope this email finds you',
+    'i hope this finds you',
+    'i wanted to reach out',
+    'i am reaching out',
+    "i'm reaching out",
+    'i was impressed by what you do',
+    'just wanted to',
+  ], 'Generic opener'),
+  {
+    id: 'greeting',
+    check: (icebreaker) => (/^(?:hi|hello|hey|dear|good (?:morning|afternoon))\b/i.test(icebreaker)
+      ? 'Starts with a greeting - the email adds its own'
+      : null),
+  },
+  bannedPhraseRule('pitch', ['book a call', 'book a demo', 'schedule a call', 'hop on a call', 'free trial', 'we help', 'our product'], 'Pitches or asks instead of opening'),
+  siteSpecificRule,
+];
+
+/**
+ * Run validateIcebreaker and every rule, collecting each problem for the regeneration prompt
+ */
+export function reviewIcebreaker(
+  icebreaker: string,
+  context: IcebreakerCheckContext,
+  rules: IcebreakerRule[] = DEFAULT_ICEBREAKER_RULES
+): IcebreakerReview {
+  const problems = rules
+    .map(rule => rule.check(icebreaker, context))
+    .filter((problem): problem is string => !!problem);
+
+  // The rules cover everything validateIcebreaker does, but a custom rule set might not
+  if (problems.length === 0 && !validateIcebreaker(icebreaker)) {
+    problems.push('Fails the basic checks - 20 to 300 characters, no generic opener');
+  }
+
+  return { passed: problems.length === 0, problems };
+}
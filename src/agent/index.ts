@@ -5,6 +5,12 @@
 
 export * from './types.js';
 export * from './crawl.js';
+export * from './scrapeProvider.js';
+export * from './htmlToMarkdown.js';
+export * from './dossier.js';
 export * from './emailExtractor.js';
+export * from './emailDeobfuscator.js';
+export * from './emailInference.js';
+export * from './emailVerification.js';
 export * from './icebreakerGenerator.js';
 export * from './csvProcessor.js';
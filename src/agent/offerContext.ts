@@ -0,0 +1,89 @@
+/**
+ * Offer context module
+ * Pulls the value proposition, ICP, pain points and proof points out of a knowledge base's
+ * markdown so prompts get the parts that matter rather than the whole framework
+ */
+
+import type { OfferContext } from './types.js';
+
+type OfferField = 'valueProposition' | 'icp' | 'painPoints' | 'proofPoints';
+
+// Heading wording varies between frameworks - the default template's headings come first
+const SECTION_PATTERNS: Array<[OfferField, RegExp]> = [
+  ['valueProposition', /value prop|what we (?:do|offer|sell)|offer|solution|product|service/i],
+  ['icp', /target audience|\bicp\b|ideal customer|who we (?:help|serve|sell to)|audience|persona/i],
+  ['painPoints', /pain|problem|challenge|struggle/i],
+  ['proofPoints', /proof|case stud|testimonial|result|credential|client|customer stor/i],
+];
+
+const MAX_SECTION_LENGTH = 600;
+const MAX_LIST_ITEMS = 6;
+
+function sectionField(heading: string): OfferField | null {
+  return SECTION_PATTERNS.find(([, pattern]) => pattern.test(heading))?.[0] ?? null;
+}
+
+function cleanSectionText(lines: string[]): string {
+  return lines.join(' ').replace(/\s+/g, ' ').trim().slice(0, MAX_SECTION_LENGTH);
+}
+
+// Bullets become list items; a section written as prose is kept as one item
+function sectionItems(lines: string[]): string[] {
+  const bullets = lines
+    .filter(line => /^\s*(?:[-*+]|\d+[.)])\s+/.test(line))
+    .map(line => line.replace(/^\s*(?:[-*+]|\d+[.)])\s+/, '').replace(/^pain point \d+:\s*/i, '').trim())
+    .filter(Boolean);
+  if (bullets.length > 0) return bullets.slice(0, MAX_LIST_ITEMS);
+
+  const text = cleanSectionText(lines);
+  return text ? [text] : [];
+}
+
+/**
+ * Split knowledge base markdown by heading and file each section under the field it describes
+ * Lines like "What problems does..." under a heading are template prompts, not content, so questions are dropped
+ */
+export function extractOfferContext(markdown: string): OfferContext {
+  const sections = new Map<OfferField, string[]>();
+  let current: OfferField | null = null;
+
+  for (const line of markdown.split(/\r?\n/)) {
+    const heading = line.match(/^#{1,6}\s+(.+)$/) || line.match(/^\*\*(.+?)\*\*:?\s*$/);
+    if (heading) {
+      current = sectionField(heading[1]);
+      // A heading that doesn't map anywhere ends the previous section
+      if (current && !sections.has(current)) sections.set(current, []);
+      continue;
+    }
+    if (!current || !line.trim() || /\?\s*$/.test(line.trim())) continue;
+    sections.get(current)!.push(line.replace(/^example:\s*/i, ''));
+  }
+
+  const text = (field: OfferField) => cleanSectionText(sections.get(field) || []) || undefined;
+
+  return {
+    valueProposition: text('valueProposition'),
+    icp: text('icp'),
+    painPoints: sectionItems(sections.get('painPoints') || []),
+    proofPoints: sectionItems(sections.get('proofPoints') || []),
+  };
+}
+
+export function isOfferContextEmpty(offer: OfferContext | undefined): boolean {
+  if (!offer) return true;
+  return !offer.valueProposition && !offer.icp && offer.painPoints.length === 0 && offer.proofPoints.length === 0;
+}
+
+/**
+ * Plain-text offer for a prompt, or '' when the knowledge base had none of the sections we look for
+ */
+export function formatOfferContext(offer: OfferContext | undefined): string {
+  if (!offer || isOfferContextEmpty(offer)) return '';
+
+  return [
+    offer.valueProposition && `What we offer: ${offer.valueProposition}`,
+    offer.icp && `Who we help: ${offer.icp}`,
+    offer.painPoints.length > 0 && `Pain points we solve:\n${offer.painPoints.map(p => `- ${p}`).join('\n')}`,
+    offer.proofPoints.length > 0 && `Proof points:\n${offer.proofPoints.map(p => `- ${p}`).join('\n')}`,
+  ].filter(Boolean).join('\n');
+}
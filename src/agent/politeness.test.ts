@@ -0,0 +1,119 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { createCrawlPoliteness, findRobotsRule, isPathAllowed, parseRobotsTxt } from './politeness.js';
+
+test('a group naming our token beats *, and several matching groups are merged', () => {
+  const policy = parseRobotsTxt([
+    'User-agent: *',
+    'Disallow: /',
+    '',
+    'User-agent: Innov8aiBot/1.0',
+    'Disallow: /private',
+    'Crawl-delay: 2',
+    '',
+    'User-agent: OtherBot',
+    'User-agent: innov8aibot',
+    'Disallow: /drafts  # merged into ours',
+    'Crawl-delay: 5',
+  ].join('\n'));
+
+  assert.deepEqual(policy.rules, [{ allow: false, path: '/private' }, { allow: false, path: '/drafts' }]);
+  assert.equal(policy.crawlDelay, 5);
+  assert.equal(isPathAllowed(policy, '/team'), true);
+});
+
+test('without a group for our token, the * group applies; an empty Disallow allows everything', () => {
+  assert.deepEqual(parseRobotsTxt('User-agent: *\nDisallow: /admin\n\nUser-agent: OtherBot\nDisallow: /').rules, [{ allow: false, path: '/admin' }]);
+  assert.deepEqual(parseRobotsTxt('User-agent: *\nDisallow:').rules, []);
+  assert.deepEqual(parseRobotsTxt('Disallow: /orphan').rules, []);
+});
+
+test('the longest matching rule wins, and Allow wins a tie', () => {
+  const policy = parseRobotsTxt('User-agent: *\nDisallow: /about\nAllow: /about/team\nDisallow: /page\nAllow: /page');
+
+  assert.deepEqual(findRobotsRule(policy, '/about/history'), { allow: false, path: '/about' });
+  assert.deepEqual(findRobotsRule(policy, '/about/team/jane'), { allow: true, path: '/about/team' });
+  assert.deepEqual(findRobotsRule(policy, '/page'), { allow: true, path: '/page' });
+  assert.equal(findRobotsRule(policy, '/contact'), null);
+});
+
+test('* matches any run of characters and a trailing $ anchors the end', () => {
+  const policy = parseRobotsTxt('User-agent: *\nDisallow: /*.pdf$\nDisallow: /search*q=');
+
+  assert.equal(isPathAllowed(policy, '/files/deck.pdf'), false);
+  assert.equal(isPathAllowed(policy, '/files/deck.pdf?download=1'), true);
+  assert.equal(isPathAllowed(policy, '/search?lang=en&q=widgets'), false);
+  assert.equal(isPathAllowed(policy, '/search'), true);
+});
+
+let server: Server;
+let origin: string;
+let robots: { status: number; body: string } = { status: 200, body: '' };
+let robotsFetches = 0;
+
+before(async () => {
+  server = createServer((req, res) => {
+    if (req.url === '/robots.txt') {
+      robotsFetches++;
+      res.writeHead(robots.status, { 'Content-Type': 'text/plain' });
+      res.end(robots.body);
+      return;
+    }
+    res.writeHead(404);
+    res.end();
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => server.close());
+
+test('disallowed paths are skipped with the rule that matched', async () => {
+  robots = { status: 200, body: 'User-agent: *\nDisallow: /private' };
+  const politeness = createCrawlPoliteness({ minDelayMs: 0 });
+
+  assert.deepEqual(await politeness.acquire(`${origin}/about`), { allowed: true });
+  const check = await politeness.acquire(`${origin}/private/plans`);
+  assert.equal(check.allowed, false);
+  assert.match(check.allowed ? '' : check.reason, /robots\.txt disallows "\/private"/);
+});
+
+test('a missing robots.txt allows everything', async () => {
+  robots = { status: 404, body: '' };
+  const politeness = createCrawlPoliteness({ minDelayMs: 0 });
+  assert.deepEqual(await politeness.acquire(`${origin}/anything`), { allowed: true });
+});
+
+test('an unreadable robots.txt keeps the site off-limits only until unreachableTtlMs passes', async () => {
+  robots = { status: 503, body: '' };
+  robotsFetches = 0;
+  const politeness = createCrawlPoliteness({ minDelayMs: 0, unreachableTtlMs: 50 });
+
+  const check = await politeness.acquire(`${origin}/`);
+  assert.equal(check.allowed, false);
+  assert.match(check.allowed ? '' : check.reason, /robots\.txt could not be fetched \(HTTP 503\)/);
+  await politeness.acquire(`${origin}/team`);
+  assert.equal(robotsFetches, 1);
+
+  robots = { status: 200, body: '' };
+  await new Promise(resolve => setTimeout(resolve, 60));
+  assert.deepEqual(await politeness.acquire(`${origin}/`), { allowed: true });
+  assert.equal(robotsFetches, 2);
+});
+
+test('requests to one host are spaced by the larger of minDelayMs and Crawl-delay', async () => {
+  robots = { status: 200, body: 'User-agent: *\nCrawl-delay: 0.1' };
+  const politeness = createCrawlPoliteness({ minDelayMs: 20 });
+
+  const started = Date.now();
+  await Promise.all([politeness.acquire(`${origin}/a`), politeness.acquire(`${origin}/b`), politeness.acquire(`${origin}/c`)]);
+  assert.ok(Date.now() - started >= 190, 'three requests should take two 100ms gaps');
+
+  robots = { status: 200, body: 'User-agent: *\nCrawl-delay: 60' };
+  const strict = createCrawlPoliteness({ minDelayMs: 0, maxDelayMs: 10000 });
+  const check = await strict.acquire(`${origin}/a`);
+  assert.equal(check.allowed, false);
+  assert.match(check.allowed ? '' : check.reason, /Crawl-delay of 60s is longer than the 10s we wait/);
+});
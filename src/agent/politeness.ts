@@ -0,0 +1,253 @@
+/**
+ * Crawl politeness module
+ * Sits in front of a scrape provider: honours robots.txt (Disallow/Allow and Crawl-delay)
+ * for our user agent and spaces out requests to the same host
+ */
+
+import type { ScrapeProvider, ScrapedPage } from './scrapeProvider.js';
+import { DEFAULT_USER_AGENT } from './scrapeProvider.js';
+
+export interface RobotsRule {
+  allow: boolean;
+  path: string;  // As written in robots.txt, may contain * and a trailing $
+}
+
+export interface RobotsPolicy {
+  rules: RobotsRule[];
+  crawlDelay?: number;  // Seconds
+  unreachable?: string;  // Why robots.txt couldn't be read - treated as a full disallow until re-fetched
+}
+
+export interface PolitenessOptions {
+  fetch?: typeof fetch;  // Injectable for tests against a local fixture server
+  userAgent?: string;  // Sent when fetching robots.txt
+  robotsToken?: string;  // Product token matched against User-agent lines
+  minDelayMs?: number;  // Gap between requests to one host when robots.txt sets no Crawl-delay
+  maxDelayMs?: number;  // Longest Crawl-delay we'll wait out; beyond this the page is skipped
+  robotsTtlMs?: number;
+  unreachableTtlMs?: number;  // How long a robots.txt that couldn't be read keeps the site off-limits
+  timeoutMs?: number;
+}
+
+export type PolitenessCheck =
+  | { allowed: true }
+  | { allowed: false; reason: string };
+
+export interface CrawlPoliteness {
+  /** Check robots.txt for a URL and, if allowed, wait for the host's next free slot */
+  acquire: (url: string) => Promise<PolitenessCheck>;
+}
+
+export const ROBOTS_PRODUCT_TOKEN = 'Innov8aiBot';
+
+const DEFAULT_MIN_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 10000;
+const DEFAULT_ROBOTS_TTL_MS = 60 * 60 * 1000;
+const DEFAULT_UNREACHABLE_TTL_MS = 60 * 1000;
+const DEFAULT_TIMEOUT_MS = 5000;
+const MAX_ROBOTS_BYTES = 500 * 1024;
+
+/**
+ * Parse robots.txt into the rules that apply to our crawler
+ * Groups naming our token win over the * group; several matching groups are merged
+ */
+export function parseRobotsTxt(text: string, robotsToken: string = ROBOTS_PRODUCT_TOKEN): RobotsPolicy {
+  const token = robotsToken.toLowerCase();
+  const specific: RobotsPolicy = { rules: [] };
+  const wildcard: RobotsPolicy = { rules: [] };
+  let matchedSpecific = false;
+
+  // Groups the current run of rules applies to
+  let targets: RobotsPolicy[] = [];
+  let inUserAgentLines = false;
+
+  for (const rawLine of text.slice(0, MAX_ROBOTS_BYTES).split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      if (!inUserAgentLines) targets = [];
+      inUserAgentLines = true;
+
+      const agent = value.toLowerCase();
+      if (agent === '*') {
+        targets.push(wildcard);
+      } else if (agent.split('/')[0].trim() === token) {
+        targets.push(specific);
+        matchedSpecific = true;
+      }
+      continue;
+    }
+
+    inUserAgentLines = false;
+    if (targets.length === 0) continue;
+
+    if (field === 'allow' || field === 'disallow') {
+      // An empty Disallow allows everything, so it adds no rule
+      if (!value) continue;
+      for (const target of targets) target.rules.push({ allow: field === 'allow', path: value });
+    } else if (field === 'crawl-delay') {
+      const delay = parseFloat(value);
+      if (Number.isFinite(delay) && delay >= 0) {
+        for (const target of targets) target.crawlDelay = Math.max(target.crawlDelay ?? 0, delay);
+      }
+    }
+  }
+
+  return matchedSpecific ? specific : wildcard;
+}
+
+function ruleMatchLength(rulePath: string, path: string): number {
+  const anchored = rulePath.endsWith('$');
+  const pattern = (anchored ? rulePath.slice(0, -1) : rulePath)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${pattern}${anchored ? '$' : ''}`).test(path) ? rulePath.length : -1;
+}
+
+/**
+ * Find the rule that decides a path: the longest match wins, Allow wins a tie
+ * Returns null when nothing matches (allowed)
+ */
+export function findRobotsRule(policy: RobotsPolicy, path: string): RobotsRule | null {
+  let best: RobotsRule | null = null;
+  let bestLength = -1;
+
+  for (const rule of policy.rules) {
+    const length = ruleMatchLength(rule.path, path);
+    if (length > bestLength || (length === bestLength && length >= 0 && rule.allow)) {
+      best = rule;
+      bestLength = length;
+    }
+  }
+
+  return bestLength >= 0 ? best : null;
+}
+
+export function isPathAllowed(policy: RobotsPolicy, path: string): boolean {
+  if (policy.unreachable) return false;
+  return findRobotsRule(policy, path)?.allow ?? true;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Politeness state shared by every scrape on this server: robots.txt per origin
+ * (cached for robotsTtlMs, or only unreachableTtlMs when it couldn't be read)
+ * and the next time each host may be hit
+ */
+export function createCrawlPoliteness(options: PolitenessOptions = {}): CrawlPoliteness {
+  const {
+    fetch: fetchFn = fetch,
+    userAgent = DEFAULT_USER_AGENT,
+    robotsToken = ROBOTS_PRODUCT_TOKEN,
+    minDelayMs = DEFAULT_MIN_DELAY_MS,
+    maxDelayMs = DEFAULT_MAX_DELAY_MS,
+    robotsTtlMs = DEFAULT_ROBOTS_TTL_MS,
+    unreachableTtlMs = DEFAULT_UNREACHABLE_TTL_MS,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+  } = options;
+
+  const robotsCache = new Map<string, { policy: Promise<RobotsPolicy>; fetchedAt: number; ttlMs: number }>();
+  const nextSlot = new Map<string, number>();
+
+  const fetchRobots = async (origin: string): Promise<RobotsPolicy> => {
+    try {
+      const response = await fetchFn(`${origin}/robots.txt`, {
+        redirect: 'follow',
+        signal: AbortSignal.timeout(timeoutMs),
+        headers: { 'User-Agent': userAgent, 'Accept': 'text/plain,*/*;q=0.5' },
+      });
+
+      // No robots.txt (or one we're not allowed to read) means no restrictions
+      if (response.status >= 400 && response.status < 500 && response.status !== 429) {
+        return { rules: [] };
+      }
+      if (!response.ok) return { rules: [], unreachable: `HTTP ${response.status}` };
+
+      return parseRobotsTxt(await response.text(), robotsToken);
+    } catch (error) {
+      const message = error instanceof Error && error.name === 'TimeoutError'
+        ? `timed out after ${timeoutMs}ms`
+        : error instanceof Error ? error.message : 'request failed';
+      return { rules: [], unreachable: message };
+    }
+  };
+
+  const getRobots = (origin: string): Promise<RobotsPolicy> => {
+    const cached = robotsCache.get(origin);
+    if (cached && Date.now() - cached.fetchedAt < cached.ttlMs) return cached.policy;
+
+    // Cache the promise so concurrent pages on one site share a single robots.txt fetch;
+    // one slow or failing response only keeps the site off-limits briefly
+    const entry = { policy: fetchRobots(origin), fetchedAt: Date.now(), ttlMs: robotsTtlMs };
+    entry.policy.then(policy => {
+      if (policy.unreachable) entry.ttlMs = unreachableTtlMs;
+    });
+    robotsCache.set(origin, entry);
+    return entry.policy;
+  };
+
+  const acquire = async (url: string): Promise<PolitenessCheck> => {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return { allowed: false, reason: `Invalid URL: ${url}` };
+    }
+
+    const policy = await getRobots(parsed.origin);
+    const path = `${parsed.pathname}${parsed.search}`;
+
+    if (policy.unreachable) {
+      return { allowed: false, reason: `Skipped ${url}: robots.txt could not be fetched (${policy.unreachable}), so the site is treated as off-limits for now` };
+    }
+
+    const rule = findRobotsRule(policy, path);
+    if (rule && !rule.allow) {
+      return { allowed: false, reason: `Skipped ${url}: robots.txt disallows "${rule.path}" for ${robotsToken}` };
+    }
+
+    const delayMs = Math.max(minDelayMs, (policy.crawlDelay ?? 0) * 1000);
+    if (delayMs > maxDelayMs) {
+      return {
+        allowed: false,
+        reason: `Skipped ${url}: robots.txt Crawl-delay of ${policy.crawlDelay}s is longer than the ${maxDelayMs / 1000}s we wait`,
+      };
+    }
+
+    // Reserve the host's next slot before sleeping so concurrent requests queue up behind it
+    const now = Date.now();
+    const slot = Math.max(now, nextSlot.get(parsed.host) ?? 0);
+    nextSlot.set(parsed.host, slot + delayMs);
+    if (slot > now) await sleep(slot - now);
+
+    return { allowed: true };
+  };
+
+  return { acquire };
+}
+
+/**
+ * Wrap a provider so every page goes through the politeness checks first
+ * Skipped pages come back unsuccessful with skipped set and the reason as the error
+ */
+export function withPoliteness(provider: ScrapeProvider, politeness: CrawlPoliteness): ScrapeProvider {
+  const scrape = async (url: string): Promise<ScrapedPage> => {
+    const check = await politeness.acquire(url);
+    if (!check.allowed) {
+      return { success: false, url, skipped: true, error: check.reason };
+    }
+    return provider.scrape(url);
+  };
+
+  return { name: provider.name, scrape };
+}
@@ -0,0 +1,122 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { createNativeScrapeProvider, createPublicFetch, isPrivateAddress } from './scrapeProvider.js';
+
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+  server = createServer((req, res) => {
+    switch (req.url) {
+      case '/':
+        res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+        res.end('<html><head><title>Home</title></head><body><main><h1>Acme</h1><p>Hello</p></main></body></html>');
+        break;
+      case '/moved':
+        res.writeHead(302, { Location: '/' });
+        res.end();
+        break;
+      case '/missing':
+        res.writeHead(404);
+        res.end('not found');
+        break;
+      case '/image':
+        res.writeHead(200, { 'Content-Type': 'image/png' });
+        res.end('png');
+        break;
+      case '/endless': {
+        // Never ends on its own - only a reader that stops and cancels gets out
+        res.writeHead(200, { 'Content-Type': 'text/html' });
+        res.write('<body><main>');
+        const timer = setInterval(() => res.write(`<p>${'x'.repeat(16 * 1024)}</p>`), 5);
+        res.on('close', () => clearInterval(timer));
+        break;
+      }
+      case '/slow':
+        setTimeout(() => res.end('<p>late</p>'), 1000);
+        break;
+      default:
+        res.writeHead(500);
+        res.end();
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+test('fetches a page and converts it to markdown, following redirects', async () => {
+  const provider = createNativeScrapeProvider();
+  const page = await provider.scrape(`${baseUrl}/moved`);
+  assert.equal(page.success, true);
+  assert.equal(page.status, 200);
+  assert.equal(page.title, 'Home');
+  assert.equal(page.markdown, '# Acme\n\nHello');
+});
+
+test('non-2xx and non-HTML responses fail with the status', async () => {
+  const provider = createNativeScrapeProvider();
+
+  const missing = await provider.scrape(`${baseUrl}/missing`);
+  assert.equal(missing.success, false);
+  assert.equal(missing.status, 404);
+  assert.equal(missing.error, 'HTTP 404');
+
+  const image = await provider.scrape(`${baseUrl}/image`);
+  assert.equal(image.success, false);
+  assert.match(image.error || '', /Unsupported content type: image\/png/);
+});
+
+test('stops reading at the byte cap instead of buffering the whole body', async () => {
+  const provider = createNativeScrapeProvider({ maxBytes: 4096 });
+  const page = await provider.scrape(`${baseUrl}/endless`);
+  assert.equal(page.success, true);
+  assert.ok((page.markdown || '').length <= 4096);
+});
+
+test('gives up after the timeout', async () => {
+  const provider = createNativeScrapeProvider({ timeoutMs: 100 });
+  const page = await provider.scrape(`${baseUrl}/slow`);
+  assert.equal(page.success, false);
+  assert.equal(page.error, 'Timed out after 100ms');
+});
+
+test('private, loopback, link-local and reserved addresses are recognised', () => {
+  for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:a9fe:a9fe']) {
+    assert.equal(isPrivateAddress(address), true, address);
+  }
+  for (const address of ['93.184.216.34', '8.8.8.8', '172.32.0.1', '2606:4700::1111']) {
+    assert.equal(isPrivateAddress(address), false, address);
+  }
+});
+
+test('the public-only fetch refuses private hosts, other schemes and redirects into the network', async () => {
+  const resolveHost = async (hostname: string) => (hostname === 'intranet.acme.com' ? ['10.0.0.5'] : ['93.184.216.34']);
+  const requested: string[] = [];
+  const fakeFetch = (async (input: string | URL | Request) => {
+    requested.push(String(input));
+    return new Response(null, { status: 302, headers: { Location: 'http://169.254.169.254/latest/meta-data/' } });
+  }) as typeof fetch;
+  const publicFetch = createPublicFetch(resolveHost, fakeFetch);
+
+  await assert.rejects(publicFetch(`${baseUrl}/`), /private address/);
+  await assert.rejects(publicFetch('http://intranet.acme.com/'), /private address/);
+  await assert.rejects(publicFetch('file:///etc/passwd'), /file: URLs/);
+  assert.deepEqual(requested, []);
+
+  await assert.rejects(publicFetch('https://acme.com/'), /169\.254\.169\.254: it resolves to a private address/);
+  assert.deepEqual(requested, ['https://acme.com/']);
+});
+
+test('the native provider reports a refused host as a failed scrape', async () => {
+  const provider = createNativeScrapeProvider({ fetch: createPublicFetch(async () => ['127.0.0.1']) });
+  const page = await provider.scrape('http://localhost/');
+  assert.equal(page.success, false);
+  assert.match(page.error || '', /private address/);
+});
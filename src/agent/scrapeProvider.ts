@@ -0,0 +1,196 @@
+/**
+ * Scrape provider module
+ * Every scraper (Firecrawl, native fetch) returns the same page shape, so the
+ * enrichment pipeline doesn't care which one fetched the page
+ */
+
+import type { ScrapeProviderName } from './types.js';
+import { htmlToMarkdown } from './htmlToMarkdown.js';
+
+export interface ScrapedPage {
+  success: boolean;
+  url: string;
+  markdown?: string;
+  title?: string;
+  description?: string;
+  links?: string[];  // Links on the page (navigation included) for multi-page crawls
+  error?: string;
+  status?: number;  // Upstream HTTP status, when known
+  skipped?: boolean;  // Not fetched - robots.txt or crawl-delay said no; error says why
+}
+
+export interface ScrapeProvider {
+  name: ScrapeProviderName;
+  scrape: (url: string) => Promise<ScrapedPage>;
+}
+
+export interface NativeScrapeOptions {
+  fetch?: typeof fetch;  // Injectable for tests against a local fixture server (the server passes a public-only fetch)
+  timeoutMs?: number;
+  maxBytes?: number;
+  userAgent?: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_MAX_BYTES = 2 * 1024 * 1024;
+export const DEFAULT_USER_AGENT = 'Mozilla/5.0 (compatible; Innov8aiBot/1.0; +https://innov8ai.com)';
+const MAX_REDIRECTS = 5;
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+// Looks a hostname up to every address it resolves to (dns.lookup on the server)
+export type HostResolver = (hostname: string) => Promise<string[]>;
+
+function ipv4Octets(address: string): number[] | null {
+  const octets = address.split('.').map(Number);
+  return octets.length === 4 && octets.every(o => Number.isInteger(o) && o >= 0 && o <= 255) ? octets : null;
+}
+
+/**
+ * Whether an IP address is somewhere a public scraper has no business fetching:
+ * loopback, private, carrier-grade NAT, link-local (cloud metadata), multicast or reserved
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.toLowerCase().replace(/^\[|\]$/g, '');
+  const v4 = ipv4Octets(ip);
+  if (v4) {
+    const [a, b] = v4;
+    return a === 0 || a === 10 || a === 127 || a >= 224
+      || (a === 100 && b >= 64 && b <= 127)
+      || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b <= 31)
+      || (a === 192 && b === 168)
+      || (a === 192 && b === 0 && v4[2] === 0)
+      || (a === 198 && (b === 18 || b === 19));
+  }
+
+  // IPv4-mapped IPv6, dotted ("::ffff:127.0.0.1") or as URL parsing writes it ("::ffff:7f00:1")
+  const mapped = ip.match(/^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/);
+  if (mapped) {
+    if (mapped[1]) return isPrivateAddress(mapped[1]);
+    const high = parseInt(mapped[2], 16);
+    const low = parseInt(mapped[3], 16);
+    return isPrivateAddress([high >> 8, high & 255, low >> 8, low & 255].join('.'));
+  }
+
+  return ip === '::' || ip === '::1' || /^f[cd]/.test(ip) || /^fe[89ab]/.test(ip) || ip.startsWith('ff');
+}
+
+/**
+ * Refuse a URL that isn't http(s) or whose host resolves to a private address
+ */
+async function assertPublicUrl(url: URL, resolveHost: HostResolver): Promise<void> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Refusing to fetch ${url.protocol} URLs`);
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  const isLiteral = !!ipv4Octets(hostname) || hostname.includes(':');
+  const addresses = isLiteral ? [hostname] : await resolveHost(hostname);
+  if (addresses.length === 0) {
+    throw new Error(`Could not resolve ${hostname}`);
+  }
+  if (addresses.some(isPrivateAddress)) {
+    throw new Error(`Refusing to fetch ${hostname}: it resolves to a private address`);
+  }
+}
+
+/**
+ * fetch for server-side scraping: http(s) only, every hop's host checked against private
+ * ranges before it's requested, redirects followed by hand so each one is checked too
+ */
+export function createPublicFetch(resolveHost: HostResolver, fetchFn: typeof fetch = fetch): typeof fetch {
+  return async (input, init) => {
+    let url = new URL(input instanceof Request ? input.url : String(input));
+
+    for (let hops = 0; ; hops++) {
+      await assertPublicUrl(url, resolveHost);
+      const response = await fetchFn(url, { ...init, redirect: 'manual' });
+      const location = response.headers.get('location');
+      if (!REDIRECT_STATUSES.has(response.status) || !location) return response;
+
+      if (hops >= MAX_REDIRECTS) {
+        throw new Error(`Too many redirects (over ${MAX_REDIRECTS})`);
+      }
+      await response.body?.cancel();
+      url = new URL(location, url);
+    }
+  };
+}
+
+/**
+ * Read at most maxBytes of a body, cancelling the stream there rather than buffering the rest
+ */
+async function readCapped(response: Response, maxBytes: number): Promise<string> {
+  if (!response.body) return '';
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let received = 0;
+  let text = '';
+
+  try {
+    while (received < maxBytes) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const chunk = value.subarray(0, maxBytes - received);
+      received += chunk.length;
+      text += decoder.decode(chunk, { stream: true });
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+
+  return text + decoder.decode();
+}
+
+/**
+ * Native provider: a plain HTTP GET and a readability-style HTML-to-markdown pass
+ * No JavaScript rendering, so single-page apps come back thin - Firecrawl handles those
+ */
+export function createNativeScrapeProvider(options: NativeScrapeOptions = {}): ScrapeProvider {
+  const {
+    fetch: fetchFn = fetch,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    maxBytes = DEFAULT_MAX_BYTES,
+    userAgent = DEFAULT_USER_AGENT,
+  } = options;
+
+  const scrape = async (url: string): Promise<ScrapedPage> => {
+    try {
+      const response = await fetchFn(url, {
+        redirect: 'follow',
+        signal: AbortSignal.timeout(timeoutMs),
+        headers: {
+          'User-Agent': userAgent,
+          'Accept': 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.5',
+          'Accept-Language': 'en-GB,en;q=0.9',
+        },
+      });
+
+      if (!response.ok) {
+        return { success: false, url, status: response.status, error: `HTTP ${response.status}` };
+      }
+
+      const contentType = response.headers.get('content-type') || '';
+      if (contentType && !/html|xml|text\/plain/i.test(contentType)) {
+        return { success: false, url, status: response.status, error: `Unsupported content type: ${contentType}` };
+      }
+
+      const html = await readCapped(response, maxBytes);
+      const page = htmlToMarkdown(html, response.url || url);
+
+      if (!page.markdown) {
+        return { success: false, url, status: response.status, error: 'Page has no readable content' };
+      }
+
+      return { success: true, url, status: response.status, ...page };
+    } catch (error) {
+      const message = error instanceof Error && error.name === 'TimeoutError'
+        ? `Timed out after ${timeoutMs}ms`
+        : error instanceof Error ? error.message : 'Unknown scraping error';
+      return { success: false, url, error: message };
+    }
+  };
+
+  return { name: 'native', scrape };
+}
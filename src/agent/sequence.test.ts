@@ -0,0 +1,81 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { SequenceEmail } from './types.js';
+import {
+  MAX_SEQUENCE_STEPS,
+  addSequenceStep,
+  emailVariantCount,
+  moveSequenceStep,
+  normalizeComponent,
+  removeSequenceStep,
+  sequenceOutline,
+  stepRole,
+  variantLabel,
+  variantWeight,
+} from './sequence.js';
+
+const step = (position: number, label: string, delayDays = 3): SequenceEmail =>
+  ({ position, label, delayDays, components: [] });
+
+// Roles unset, so they're implied by position: intro, follow-up, break-up
+const threeSteps = [step(1, 'Intro', 0), step(2, 'Follow-up', 2), step(3, 'Break-up', 5)];
+
+const summary = (sequence: SequenceEmail[]) =>
+  sequence.map(s => `${s.position}:${s.label}:${stepRole(s, sequence.length)}:${s.delayDays}`);
+
+test('roles are implied by position unless set', () => {
+  assert.equal(stepRole({ position: 1 }, 3), 'intro');
+  assert.equal(stepRole({ position: 2 }, 3), 'follow-up');
+  assert.equal(stepRole({ position: 3 }, 3), 'break-up');
+  assert.equal(stepRole({ position: 2 }, 2), 'follow-up');
+  assert.equal(stepRole({ position: 3, role: 'value' }, 3), 'value');
+});
+
+test('a new step goes before a closing break-up, with every existing role pinned', () => {
+  const added = addSequenceStep(threeSteps, 'case-study');
+  assert.deepEqual(summary(added), ['1:Intro:intro:0', '2:Follow-up:follow-up:2', '3:Case study:case-study:3', '4:Break-up:break-up:5']);
+  assert.deepEqual(added[2].components.map(c => [c.type, c.variants.length]), [
+    ['subject', 2], ['preview', 2], ['hook', 2], ['problem', 2], ['agitate', 2], ['solution', 2], ['cta', 2], ['ps', 2],
+  ]);
+});
+
+test('without a break-up the new step goes at the end, and the sequence is capped', () => {
+  assert.deepEqual(summary(addSequenceStep([step(1, 'Intro', 0), step(2, 'Follow-up')])),
+    ['1:Intro:intro:0', '2:Follow-up:follow-up:3', '3:Follow-up:follow-up:3']);
+
+  const full = Array.from({ length: MAX_SEQUENCE_STEPS }, (_, i) => step(i + 1, `Step ${i + 1}`));
+  assert.equal(addSequenceStep(full), full);
+});
+
+test('removing a step renumbers the rest without changing what they are for', () => {
+  assert.deepEqual(summary(removeSequenceStep(threeSteps, 2)), ['1:Intro:intro:0', '2:Break-up:break-up:5']);
+  assert.deepEqual(summary(removeSequenceStep(threeSteps, 1)), ['1:Follow-up:follow-up:0', '2:Break-up:break-up:5']);
+
+  const single = [step(1, 'Intro', 0)];
+  assert.equal(removeSequenceStep(single, 1), single);
+});
+
+test('moving a step swaps it with its neighbour, and the first step always goes out immediately', () => {
+  assert.deepEqual(summary(moveSequenceStep(threeSteps, 2, -1)), ['1:Follow-up:follow-up:0', '2:Intro:intro:3', '3:Break-up:break-up:5']);
+  assert.equal(moveSequenceStep(threeSteps, 1, -1), threeSteps);
+  assert.equal(moveSequenceStep(threeSteps, 3, 1), threeSteps);
+  assert.equal(moveSequenceStep(threeSteps, 9, 1), threeSteps);
+});
+
+test('the outline gives the generator each step\'s label, role and delay', () => {
+  assert.deepEqual(sequenceOutline(threeSteps).map(s => s.role), ['intro', 'follow-up', 'break-up']);
+});
+
+test('variants are labelled by position, weighted 1 unless usably set, and counted per email', () => {
+  assert.deepEqual([0, 1, 5].map(variantLabel), ['A', 'B', 'F']);
+  assert.deepEqual([{ text: '' }, { text: '', weight: 3 }, { text: '', weight: 0 }, { text: '', weight: NaN }].map(variantWeight), [1, 3, 1, 1]);
+
+  const email = { ...step(1, 'Intro'), components: [{ type: 'subject' as const, variants: [{ text: 'a' }, { text: 'b' }, { text: 'c' }] }] };
+  assert.equal(emailVariantCount(email), 3);
+  assert.equal(emailVariantCount(step(1, 'Empty')), 1);
+});
+
+test('components saved as variantA/variantB become a variants list', () => {
+  assert.deepEqual(normalizeComponent({ type: 'cta', variantA: 'Chat?', variantB: undefined }), { type: 'cta', variants: [{ text: 'Chat?' }, { text: '' }] });
+  assert.deepEqual(normalizeComponent({ type: 'cta', variants: [] }), { type: 'cta', variants: [{ text: '' }] });
+});
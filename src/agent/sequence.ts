@@ -0,0 +1,167 @@
+/**
+ * Email sequence module
+ * Steps can be added, removed and reordered, so positions are always recomputed
+ * from array order rather than trusted; roles fall back to what a step's place implies.
+ * Each component carries any number of weighted variants.
+ */
+
+import type { ComponentVariant, EmailComponent, EmailComponentType, SequenceEmail, SequenceStepRole } from './types.js';
+
+export const MAX_SEQUENCE_STEPS = 10;
+export const MAX_COMPONENT_VARIANTS = 6;
+
+// Label shown in the editor, and how the generator is told to write the step
+export const SEQUENCE_STEP_ROLES: Record<SequenceStepRole, { label: string; brief: string }> = {
+  'intro': {
+    label: 'Intro',
+    brief: 'First contact. Earn attention with relevance to them, introduce the problem we solve, one clear low-friction ask.',
+  },
+  'follow-up': {
+    label: 'Follow-up',
+    brief: 'They have not replied. Do not repeat the intro - come at it from a new angle or a different pain point, and keep it shorter.',
+  },
+  'value': {
+    label: 'Value add',
+    brief: 'Give something useful with no strings: an insight, a tip or a resource relevant to their situation. The ask is soft.',
+  },
+  'case-study': {
+    label: 'Case study',
+    brief: 'Lead with proof: a specific result for a similar company from the knowledge base, then tie it back to them.',
+  },
+  'objection': {
+    label: 'Objection',
+    brief: 'Name and defuse the most likely reason they have not replied (timing, cost, already have a supplier) without being defensive.',
+  },
+  'bump': {
+    label: 'Bump',
+    brief: 'A very short nudge - one or two lines that bring the thread back to the top of their inbox. No new pitch.',
+  },
+  'break-up': {
+    label: 'Break-up',
+    brief: 'Final attempt. Polite and low-pressure, make it easy to say "not now" or point you to the right person, then close the loop.',
+  },
+};
+
+const STEP_COMPONENTS: EmailComponentType[] = ['subject', 'preview', 'hook', 'problem', 'agitate', 'solution', 'cta', 'ps'];
+
+/**
+ * Variants are labelled A, B, C... by position
+ */
+export function variantLabel(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+/**
+ * A usable weight: positive and finite, otherwise the default share of 1
+ */
+export function variantWeight(variant: ComponentVariant): number {
+  return typeof variant.weight === 'number' && Number.isFinite(variant.weight) && variant.weight > 0 ? variant.weight : 1;
+}
+
+export function emptyComponent(type: EmailComponentType, count = 2): EmailComponent {
+  return { type, variants: Array.from({ length: count }, () => ({ text: '' })) };
+}
+
+/**
+ * Campaigns saved before components had a variants list stored variantA/variantB
+ */
+export function normalizeComponent(component: EmailComponent | (Pick<EmailComponent, 'type'> & { variantA?: string; variantB?: string })): EmailComponent {
+  if ('variants' in component && Array.isArray(component.variants)) {
+    return component.variants.length > 0 ? component : emptyComponent(component.type, 1);
+  }
+  const legacy = component as { type: EmailComponentType; variantA?: string; variantB?: string };
+  return { type: legacy.type, variants: [{ text: legacy.variantA || '' }, { text: legacy.variantB || '' }] };
+}
+
+export function normalizeSequence(sequence: SequenceEmail[]): SequenceEmail[] {
+  return sequence.map(step => ({ ...step, components: step.components.map(normalizeComponent) }));
+}
+
+/**
+ * How many whole-email variants a step has - the most variants any one component has
+ */
+export function emailVariantCount(email: SequenceEmail): number {
+  return Math.max(1, ...email.components.map(c => c.variants.length));
+}
+
+/**
+ * A step's role - set explicitly, or implied by where it sits: first is the intro, last the break-up
+ */
+export function stepRole(step: Pick<SequenceEmail, 'role' | 'position'>, totalSteps: number): SequenceStepRole {
+  if (step.role) return step.role;
+  if (step.position <= 1) return 'intro';
+  if (totalSteps > 2 && step.position >= totalSteps) return 'break-up';
+  return 'follow-up';
+}
+
+/**
+ * Positions follow array order; the first step always goes out immediately
+ */
+export function renumberSequence(sequence: SequenceEmail[]): SequenceEmail[] {
+  return sequence.map((step, index) => ({
+    ...step,
+    position: index + 1,
+    delayDays: index === 0 ? 0 : step.delayDays || 3,
+  }));
+}
+
+/**
+ * Where addSequenceStep puts a new step: before a closing break-up, otherwise at the end
+ */
+export function newStepPosition(sequence: SequenceEmail[]): number {
+  const last = sequence[sequence.length - 1];
+  return last && sequence.length > 1 && stepRole(last, sequence.length) === 'break-up'
+    ? sequence.length
+    : sequence.length + 1;
+}
+
+/**
+ * An empty step, inserted before the break-up when there is one so the sequence still ends on it
+ */
+export function addSequenceStep(sequence: SequenceEmail[], role: SequenceStepRole = 'follow-up'): SequenceEmail[] {
+  if (sequence.length >= MAX_SEQUENCE_STEPS) return sequence;
+
+  const step: SequenceEmail = {
+    position: 0,
+    label: SEQUENCE_STEP_ROLES[role].label,
+    role,
+    delayDays: 3,
+    components: STEP_COMPONENTS.map(type => emptyComponent(type)),
+  };
+
+  const insertAt = newStepPosition(sequence) - 1;
+
+  // Pin every role first so positions shifting doesn't change what existing steps are for
+  const pinned = sequence.map(existing => ({ ...existing, role: stepRole(existing, sequence.length) }));
+  return renumberSequence([...pinned.slice(0, insertAt), step, ...pinned.slice(insertAt)]);
+}
+
+export function removeSequenceStep(sequence: SequenceEmail[], position: number): SequenceEmail[] {
+  if (sequence.length <= 1) return sequence;
+  const pinned = sequence.map(step => ({ ...step, role: stepRole(step, sequence.length) }));
+  return renumberSequence(pinned.filter(step => step.position !== position));
+}
+
+/**
+ * Move a step one place earlier (-1) or later (+1)
+ */
+export function moveSequenceStep(sequence: SequenceEmail[], position: number, direction: -1 | 1): SequenceEmail[] {
+  const from = sequence.findIndex(step => step.position === position);
+  const to = from + direction;
+  if (from === -1 || to < 0 || to >= sequence.length) return sequence;
+
+  const pinned = sequence.map(step => ({ ...step, role: stepRole(step, sequence.length) }));
+  [pinned[from], pinned[to]] = [pinned[to], pinned[from]];
+  return renumberSequence(pinned);
+}
+
+/**
+ * What the generator is told about the whole sequence, so each step knows what came before and after
+ */
+export function sequenceOutline(sequence: SequenceEmail[]): Array<{ label: string; role: SequenceStepRole; delayDays: number }> {
+  return sequence.map(step => ({
+    label: step.label,
+    role: stepRole(step, sequence.length),
+    delayDays: step.delayDays,
+  }));
+}
@@ -22,6 +22,96 @@ export interface EnrichedLead extends Lead {
   enrichmentStatus: 'pending' | 'processing' | 'completed' | 'failed' | 'skipped';
   errorMessage?: string;
   domainValidation?: DomainValidation;
+  attempts?: number;  // Most attempts any single API call needed (1 = no retries)
+  emailDeobfuscated?: boolean;  // The email was recovered from obfuscated page text
+  emailSource?: EmailExtractionResult['source'];  // 'inferred' = guessed from a name, never seen on the site
+  deliverability?: DeliverabilityVerdict;
+  companyProfile?: CompanyProfile;
+  contacts?: LeadContact[];  // Every candidate found on the site, best first
+  contact?: LeadContact;  // Set on rows expanded from contacts: the person this row is for
+  icebreakerRationale?: IcebreakerRationale;
+  icebreakerReview?: string[];  // Quality problems still left after every regeneration - needs a human look
+}
+
+/**
+ * Why an icebreaker says what it says: the fact from their site it opens on,
+ * and (when written against a knowledge base) how that links to our offer
+ */
+export interface IcebreakerRationale {
+  siteFact: string;
+  bridge?: string;  // The pain point or proof point it leads towards
+}
+
+/**
+ * The parts of a knowledge base an icebreaker can lean on, pulled from its markdown sections
+ */
+export interface OfferContext {
+  valueProposition?: string;
+  icp?: string;  // Who we sell to
+  painPoints: string[];
+  proofPoints: string[];
+}
+
+/**
+ * Someone (or some inbox) at the lead's company we could write to
+ * Named people come from the team/leadership pages; unnamed entries are other addresses found on the site
+ */
+export interface LeadContact {
+  name?: string;
+  title?: string;
+  email?: string;
+  emailSource?: 'page_content' | 'inferred';
+  linkedinUrl?: string;
+  matchedRole?: string;  // The target role their title matched
+  confidence?: 'high' | 'medium' | 'low';
+  deliverability?: DeliverabilityVerdict;
+  keep?: boolean;  // Chosen for outreach - only kept contacts get their own row on export
+}
+
+export interface CompanyPerson {
+  name: string;
+  title?: string;
+}
+
+/**
+ * What the lead's own site says about the company, extracted alongside email discovery
+ */
+export interface CompanyProfile {
+  industry?: string;
+  offering?: string;  // What they sell, in a sentence
+  location?: string;
+  sizeHint?: string;  // e.g. "family-run", "50+ staff", "offices in 3 cities"
+  socialLinks: string[];
+  phoneNumbers: string[];
+  techSignals: string[];  // Platforms, tools and stack the site mentions or runs on
+  keyPeople: CompanyPerson[];
+}
+
+export type DossierPageKind = 'home' | 'contact' | 'about' | 'team' | 'company';
+
+export interface DossierPage {
+  url: string;
+  kind: DossierPageKind;
+  markdown: string;
+  title?: string;
+  depth: number;  // Links followed from the homepage (0 = homepage)
+  cached?: boolean;  // Served from the server's scrape cache rather than fetched
+}
+
+/**
+ * Everything crawled from one lead's site, kept per page so each step can pick what suits it
+ */
+export interface LeadDossier {
+  website: string;
+  pages: DossierPage[];
+  crawledAt: string;  // ISO string
+  skipped?: DossierSkippedPage[];  // Pages the crawler left alone out of politeness
+}
+
+export interface DossierSkippedPage {
+  url: string;
+  kind: DossierPageKind;
+  errorMessage: string;
 }
 
 export interface CrawlResult {
@@ -33,11 +123,33 @@ export interface CrawlResult {
   error?: string;
 }
 
+export interface EmailCandidate {
+  email: string;
+  deobfuscated: boolean;  // Only found after decoding "(at)"/"[dot]", entities, reversed or Cloudflare-protected text
+}
+
 export interface EmailExtractionResult {
   emails: string[];
   primaryEmail?: string;
   source: 'page_content' | 'contact_page' | 'inferred';
   confidence: 'high' | 'medium' | 'low';
+  candidates?: EmailCandidate[];
+}
+
+export interface MxRecord {
+  exchange: string;
+  priority: number;
+}
+
+export interface DeliverabilityVerdict {
+  status: 'deliverable' | 'risky' | 'undeliverable' | 'unknown';
+  syntaxValid: boolean;
+  hasMx: boolean | null;  // null = DNS lookup failed
+  catchAllSuspected: boolean;
+  disposable: boolean;
+  roleAccount: boolean;
+  mxHosts?: string[];
+  reason?: string;
 }
 
 export interface IcebreakerResult {
@@ -46,18 +158,38 @@ export interface IcebreakerResult {
   tone: 'professional' | 'casual' | 'friendly';
 }
 
+export type ScrapeProviderName = 'firecrawl' | 'native';
+
 export interface EnrichmentConfig {
-  maxConcurrency: number;
+  maxConcurrency: number;  // Leads processed in parallel
+  scrapeProvider: ScrapeProviderName;  // 'native' = plain fetch + HTML-to-markdown, no Firecrawl key needed
+  maxCrawlPages: number;  // Pages kept per site (homepage included)
+  maxCrawlDepth: number;  // How many links deep to follow from the homepage
+  firecrawlConcurrency: number;  // Max in-flight scrape requests
+  anthropicConcurrency: number;  // Max in-flight Claude requests
   retryAttempts: number;
   includeIcebreaker: boolean;
   icebreakerTone: 'professional' | 'casual' | 'friendly';
+  icebreakerUseKnowledgeBase: boolean;  // Bridge icebreakers to the selected knowledge base's offer
+  icebreakerMaxRegenerations: number;  // Retries with feedback when an icebreaker fails the quality checks
+  extractCompanyProfile: boolean;  // Always ask Claude for a profile, even when regex finds the email (one call per lead)
+  targetRoles: string[];  // Decision-maker titles to look for, most wanted first
 }
 
 export const DEFAULT_CONFIG: EnrichmentConfig = {
   maxConcurrency: 3,
+  scrapeProvider: 'firecrawl',
+  maxCrawlPages: 4,
+  maxCrawlDepth: 1,
+  firecrawlConcurrency: 2,
+  anthropicConcurrency: 4,
   retryAttempts: 2,
   includeIcebreaker: true,
   icebreakerTone: 'professional',
+  icebreakerUseKnowledgeBase: true,
+  icebreakerMaxRegenerations: 2,
+  extractCompanyProfile: false,
+  targetRoles: ['Founder', 'CEO', 'Managing Director', 'Head of Marketing', 'Operations Director'],
 };
 
 /**
@@ -77,7 +209,7 @@ export interface APIUsageEvent {
   outputTokens: number;
   model: string;
   timestamp: Date;
-  operation: 'email_search' | 'icebreaker_generation' | 'other';
+  operation: 'email_search' | 'icebreaker_generation' | 'hook_generation' | 'other';
 }
 
 // Claude pricing (as of 2024) - per 1M tokens
@@ -105,30 +237,70 @@ export interface KnowledgeBase {
 // Email component types
 export type EmailComponentType = 'subject' | 'preview' | 'hook' | 'problem' | 'agitate' | 'solution' | 'cta' | 'ps';
 
-// Email component with A/B variants
+// One way of writing a component
+export interface ComponentVariant {
+  text: string;
+  weight?: number;  // Relative share of sends (default 1)
+  angle?: string;  // The approach it takes, e.g. "pain-led", "curiosity"
+}
+
+// Email component with its split-test variants (labelled A, B, C... in order)
 export interface EmailComponent {
   type: EmailComponentType;
-  variantA: string;
-  variantB: string;
+  variants: ComponentVariant[];
 }
 
-// Email position in sequence
-export type EmailPosition = 1 | 2 | 3;
+// Email position in sequence (1-based, kept contiguous as steps are added and moved)
+export type EmailPosition = number;
+
+// What a step is for - tells the generator how the email should read
+export type SequenceStepRole = 'intro' | 'follow-up' | 'value' | 'case-study' | 'objection' | 'bump' | 'break-up';
 
 // Single email in sequence
 export interface SequenceEmail {
   position: EmailPosition;
   label: string;  // "Intro Email", "Follow-up", "Break-up"
+  role?: SequenceStepRole;  // Unset on older campaigns - derived from position
   components: EmailComponent[];
   delayDays: number;  // Days after previous email (0 for first email)
 }
 
+// Which variant of each split-tested component one lead was sent, for one step
+export interface StepVariantAssignment {
+  position: EmailPosition;
+  selection: Partial<Record<EmailComponentType, number>>;  // Variant index per component
+}
+
+// One lead's assignment across the sequence
+export interface VariantAssignment {
+  email: string;
+  variantId: string;  // Written to the export's variant_id column, e.g. "e1:subject=B,hook=A"
+  steps: StepVariantAssignment[];
+}
+
+// Record of an assigned-variant export, kept so replies can be joined back to the copy that was sent
+export interface VariantManifest {
+  seed: string;
+  createdAt: string;
+  // The split-tested components as they were when exported, with how many leads got each variant
+  steps: Array<{
+    position: EmailPosition;
+    label: string;
+    components: Array<{
+      type: EmailComponentType;
+      variants: Array<{ label: string; text: string; angle?: string; weight: number; leads: number }>;
+    }>;
+  }>;
+  assignments: VariantAssignment[];
+}
+
 // Full campaign template
 export interface Campaign {
   id: string;
   name: string;
   knowledgeBaseId: string;
   sequence: SequenceEmail[];
+  variantManifest?: VariantManifest;  // Latest assigned-variant export
   createdAt: string;
   updatedAt: string;
 }
@@ -136,63 +308,65 @@ export interface Campaign {
 // Generated email content for a single lead
 export interface GeneratedEmailContent {
   position: EmailPosition;
-  subject: { variantA: string; variantB: string };
-  preview: { variantA: string; variantB: string };
-  body: { variantA: string; variantB: string };  // Assembled from components
+  // Variant N uses each component's Nth variant (or its first, when it has fewer)
+  variants: Array<{ label: string; subject: string; preview: string; body: string }>;
 }
 
 // Extended lead with campaign data
 export interface CampaignLead extends EnrichedLead {
   campaignId?: string;
   hook?: { variantA: string; variantB: string };  // AI-generated per lead
-  emails?: GeneratedEmailContent[];  // All 3 emails with both variants
+  emails?: GeneratedEmailContent[];  // Every email in the sequence with all its variants
 }
 
-// Default 3-email sequence structure
+// Default 3-email sequence structure - steps can be added in the editor
 export const DEFAULT_SEQUENCE: SequenceEmail[] = [
   {
     position: 1,
     label: 'Intro Email',
+    role: 'intro',
     delayDays: 0,
     components: [
-      { type: 'subject', variantA: '', variantB: '' },
-      { type: 'preview', variantA: '', variantB: '' },
-      { type: 'hook', variantA: '{{hook}}', variantB: '{{hook}}' },
-      { type: 'problem', variantA: '', variantB: '' },
-      { type: 'agitate', variantA: '', variantB: '' },
-      { type: 'solution', variantA: '', variantB: '' },
-      { type: 'cta', variantA: '', variantB: '' },
-      { type: 'ps', variantA: '', variantB: '' },
+      { type: 'subject', variants: [{ text: '' }, { text: '' }] },
+      { type: 'preview', variants: [{ text: '' }, { text: '' }] },
+      { type: 'hook', variants: [{ text: '{{hook}}' }, { text: '{{hook}}' }] },
+      { type: 'problem', variants: [{ text: '' }, { text: '' }] },
+      { type: 'agitate', variants: [{ text: '' }, { text: '' }] },
+      { type: 'solution', variants: [{ text: '' }, { text: '' }] },
+      { type: 'cta', variants: [{ text: '' }, { text: '' }] },
+      { type: 'ps', variants: [{ text: '' }, { text: '' }] },
     ],
   },
   {
     position: 2,
     label: 'Follow-up',
+    role: 'follow-up',
     delayDays: 3,
     components: [
-      { type: 'subject', variantA: '', variantB: '' },
-      { type: 'preview', variantA: '', variantB: '' },
-      { type: 'hook', variantA: '', variantB: '' },
-      { type: 'problem', variantA: '', variantB: '' },
-      { type: 'agitate', variantA: '', variantB: '' },
-      { type: 'solution', variantA: '', variantB: '' },
-      { type: 'cta', variantA: '', variantB: '' },
-      { type: 'ps', variantA: '', variantB: '' },
+      { type: 'subject', variants: [{ text: '' }, { text: '' }] },
+      { type: 'preview', variants: [{ text: '' }, { text: '' }] },
+      { type: 'hook', variants: [{ text: '' }, { text: '' }] },
+      { type: 'problem', variants: [{ text: '' }, { text: '' }] },
+      { type: 'agitate', variants: [{ text: '' }, { text: '' }] },
+      { type: 'solution', variants: [{ text: '' }, { text: '' }] },
+      { type: 'cta', variants: [{ text: '' }, { text: '' }] },
+      { type: 'ps', variants: [{ text: '' }, { text: '' }] },
     ],
   },
   {
     position: 3,
     label: 'Break-up',
+    role: 'break-up',
     delayDays: 5,
     components: [
-      { type: 'subject', variantA: '', variantB: '' },
-      { type: 'preview', variantA: '', variantB: '' },
-      { type: 'hook', variantA: '', variantB: '' },
-      { type: 'problem', variantA: '', variantB: '' },
-      { type: 'agitate', variantA: '', variantB: '' },
-      { type: 'solution', variantA: '', variantB: '' },
-      { type: 'cta', variantA: '', variantB: '' },
-      { type: 'ps', variantA: '', variantB: '' },
+      { type: 'subject', variants: [{ text: '' }, { text: '' }] },
+      { type: 'preview', variants: [{ text: '' }, { text: '' }] },
+      { type: 'hook', variants: [{ text: '' }, { text: '' }] },
+      { type: 'problem', variants: [{ text: '' }, { text: '' }] },
+      { type: 'agitate', variants: [{ text: '' }, { text: '' }] },
+      { type: 'solution', variants: [{ text: '' }, { text: '' }] },
+      { type: 'cta', variants: [{ text: '' }, { text: '' }] },
+      { type: 'ps', variants: [{ text: '' }, { text: '' }] },
     ],
   },
 ];
@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getRetryDelay, isRetryableError } from './enrichment.js';
+
+test('timeouts, rate limits, overload and server errors are retryable by status', () => {
+  for (const status of [408, 425, 429, 500, 502, 503, 504, 529]) {
+    assert.equal(isRetryableError(undefined, status), true, String(status));
+  }
+});
+
+test('other 4xx statuses are fatal whatever the message says', () => {
+  assert.equal(isRetryableError('Request timed out', 400), false);
+  assert.equal(isRetryableError('Missing Firecrawl API key', 401), false);
+  assert.equal(isRetryableError('Not found', 404), false);
+});
+
+test('without a telling status, the upstream message decides', () => {
+  for (const error of ['Timed out after 15000ms', 'ECONNRESET', 'socket hang up', 'fetch failed', 'Overloaded', 'Rate limit exceeded', 'Upstream returned 503']) {
+    assert.equal(isRetryableError(error), true, error);
+    assert.equal(isRetryableError(error, 200), true, error);
+  }
+  for (const error of ['Invalid URL', 'Page has no readable content', 'HTTP 5030 widgets', undefined]) {
+    assert.equal(isRetryableError(error), false, String(error));
+  }
+});
+
+test('the backoff window doubles from 1s up to 15s, with the upper half jittered', () => {
+  const windows = [0, 1, 2, 3, 4, 5].map(attempt => [getRetryDelay(attempt, () => 0), getRetryDelay(attempt, () => 1)]);
+  assert.deepEqual(windows, [[500, 1000], [1000, 2000], [2000, 4000], [4000, 8000], [7500, 15000], [7500, 15000]]);
+
+  for (let i = 0; i < 50; i++) {
+    const delay = getRetryDelay(2);
+    assert.ok(delay >= 2000 && delay <= 4000, String(delay));
+  }
+});
@@ -4,24 +4,73 @@
  * Supports both local development (with manual API keys) and Vercel deployment (with env vars)
  */
 
-import { extractDomain } from '../agent/crawl.js';
-import type { EnrichedLead, EnrichmentConfig } from '../agent/types.js';
+import { extractDomain, normalizeUrl } from '../agent/crawl.js';
+import {
+  compareCrawlTargets,
+  discoverCrawlTargets,
+  guessCrawlTargets,
+  pageKey,
+  selectDossierContent,
+  type CrawlTarget,
+} from '../agent/dossier.js';
+import { extractEmailDeterministically } from '../agent/emailExtractor.js';
+import { deobfuscateContent, extractEmailCandidates } from '../agent/emailDeobfuscator.js';
+import { inferEmailsForLead } from '../agent/emailInference.js';
+import { formatCompanyProfile, isCompanyProfileEmpty, mergeCompanyProfile } from '../agent/companyProfile.js';
+import { buildLeadContacts, discoverContacts } from '../agent/contactDiscovery.js';
+import { extractOfferContext, formatOfferContext } from '../agent/offerContext.js';
+import { parseIcebreakerResponse, reviewIcebreaker } from '../agent/icebreakerGenerator.js';
+import { isRoleAccount } from '../agent/emailVerification.js';
+import { DEFAULT_CONFIG } from '../agent/types.js';
+import type {
+  EnrichedLead,
+  EnrichmentConfig,
+  CampaignLead,
+  Campaign,
+  KnowledgeBase,
+  DeliverabilityVerdict,
+  ScrapeProviderName,
+  DossierPage,
+  DossierSkippedPage,
+  LeadDossier,
+  CompanyProfile,
+  IcebreakerRationale,
+} from '../agent/types.js';
+import { campaignUsesHook } from '../utils/instantlyExport.js';
+import { renderLeadEmails } from '../utils/emailRenderer.js';
+import { createLimiter, runPool, type Limiter } from '../utils/workerPool.js';
 
 // Use relative URLs - works for both local dev server and Vercel deployment
 const API_BASE = '/api';
 
+// Exponential backoff bounds for retrying transient failures
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 15000;
+
+// HTTP statuses worth retrying (timeouts, rate limits, server errors, Anthropic overload)
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504, 529]);
+
+// Error messages the backend passes through from Firecrawl/Anthropic that indicate a transient failure
+const RETRYABLE_ERROR_PATTERN = /timed? ?out|timeout|ETIMEDOUT|ECONNRESET|ECONNREFUSED|EAI_AGAIN|socket hang up|fetch failed|network|overloaded|rate.?limit|too many requests|\b(408|429|500|502|503|504|529)\b/i;
+
 export interface EnrichmentProgress {
-  stage: 'scraping' | 'extracting' | 'icebreaker';
+  stage: 'scraping' | 'extracting' | 'icebreaker' | 'hook';
   currentIndex: number;
   totalCount: number;
   currentLead: string;
   usage: {
     inputTokens: number;
     outputTokens: number;
-    scrapedPages: number;
+    scrapedPages: ScrapedPageUsage;
   };
 }
 
+/** Pages scraped upstream vs served from the server's scrape cache */
+export interface ScrapedPageUsage {
+  fresh: number;
+  cached: number;
+}
+
 export interface ScrapeResult {
   success: boolean;
   url: string;
@@ -29,6 +78,26 @@ export interface ScrapeResult {
   title?: string;
   description?: string;
   error?: string;
+  attempts?: number;
+  provider?: ScrapeProviderName;
+  links?: string[];
+  skipped?: boolean;  // robots.txt or crawl-delay ruled the page out; error says why
+  cache?: 'hit' | 'miss';  // Whether the server served this page from its scrape cache
+  cachedAt?: string;
+}
+
+export interface CrawlOptions {
+  provider: ScrapeProviderName;
+  maxPages: number;
+  maxDepth: number;
+}
+
+export interface CrawlSiteResult {
+  success: boolean;
+  dossier: LeadDossier;
+  error?: string;
+  attempts?: number;
+  fetches: number;  // Scrape requests made, including pages that failed
 }
 
 export interface EmailExtractionResult {
@@ -36,26 +105,63 @@ export interface EmailExtractionResult {
   emails: string[];
   primaryEmail?: string;
   confidence: 'high' | 'medium' | 'low';
+  source?: 'page_content' | 'inferred';
+  method?: 'local' | 'ai';  // 'local' = the regex pre-pass settled the email
+  usedModel?: boolean;  // Claude was called anyway (for the company profile) - its tokens count
+  deobfuscated?: boolean;  // The primary email only appears on the page in obfuscated form
+  profile?: CompanyProfile;
   inputTokens: number;
   outputTokens: number;
   error?: string;
+  attempts?: number;
 }
 
 export interface IcebreakerResult {
   success: boolean;
   icebreaker: string;
+  rationale?: IcebreakerRationale;
+  problems?: string[];  // Quality problems the final icebreaker still has (empty = passed)
+  generations?: number;  // How many icebreakers were written, including regenerations
   inputTokens: number;
   outputTokens: number;
   error?: string;
+  attempts?: number;
+}
+
+export interface HookResult {
+  success: boolean;
+  hook: { variantA: string; variantB: string };
+  inputTokens: number;
+  outputTokens: number;
+  error?: string;
+  attempts?: number;
+}
+
+export interface VerificationResult {
+  success: boolean;
+  verdicts: Record<string, DeliverabilityVerdict>;
+  error?: string;
+  attempts?: number;
 }
 
 export interface EnrichmentResult {
   lead: EnrichedLead;
-  scrapeResult?: ScrapeResult;
+  crawlResult?: CrawlSiteResult;
   emailResult?: EmailExtractionResult;
+  verificationResult?: VerificationResult;
   icebreakerResult?: IcebreakerResult;
 }
 
+export interface HookGenerationResult {
+  lead: CampaignLead;
+  hookResult?: HookResult;
+}
+
+export interface RequestOptions {
+  retryAttempts?: number;
+  signal?: AbortSignal;  // Aborts in-flight requests and pending retries
+}
+
 export interface HealthCheckResult {
   status: string;
   hasAnthropicKey: boolean;
@@ -65,6 +171,19 @@ export interface HealthCheckResult {
 let apiKeys: { anthropicKey: string; firecrawlKey: string } | null = null;
 let serverHasEnvVars = false;
 
+// Caps on in-flight requests per upstream API, shared by every lead in a run
+const firecrawlLimiter = createLimiter(DEFAULT_CONFIG.firecrawlConcurrency);
+const anthropicLimiter = createLimiter(DEFAULT_CONFIG.anthropicConcurrency);
+const dnsLimiter = createLimiter(4);
+
+/**
+ * Resize the per-API limiters from the run's config
+ */
+function applyConcurrencyLimits(config: EnrichmentConfig): void {
+  firecrawlLimiter.setConcurrency(config.firecrawlConcurrency);
+  anthropicLimiter.setConcurrency(config.anthropicConcurrency);
+}
+
 /**
  * Check if the server has environment variables configured
  */
@@ -86,6 +205,13 @@ export function hasServerEnvVars(): boolean {
   return serverHasEnvVars;
 }
 
+/**
+ * Anthropic key to send with a request - only when the server has no env vars
+ */
+export function anthropicKeyParam(): { anthropicKey?: string } {
+  return apiKeys && !serverHasEnvVars ? { anthropicKey: apiKeys.anthropicKey } : {};
+}
+
 /**
  * Initialize the enrichment pipeline with API keys (for local development)
  */
@@ -100,24 +226,101 @@ export function isEnrichmentReady(): boolean {
   return serverHasEnvVars || apiKeys !== null;
 }
 
+/**
+ * Classify a failed request as transient (worth retrying) or fatal
+ */
+export function isRetryableError(error: string | undefined, status?: number): boolean {
+  if (status !== undefined && RETRYABLE_STATUSES.has(status)) return true;
+  if (status !== undefined && status >= 400 && status < 500) return false;
+  return !!error && RETRYABLE_ERROR_PATTERN.test(error);
+}
+
+/**
+ * Exponential backoff with jitter: half the window is fixed, half is random
+ */
+export function getRetryDelay(attempt: number, random: () => number = Math.random): number {
+  const window = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+  return window / 2 + random() * (window / 2);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+/**
+ * POST to a backend endpoint, retrying transient failures with backoff
+ * Resolves with the last response body (with the attempt count attached);
+ * rethrows network errors once retries are exhausted
+ */
+async function postWithRetry<T extends { success: boolean; error?: string; attempts?: number; skipped?: boolean }>(
+  path: string,
+  body: Record<string, unknown>,
+  limiter: Limiter,
+  { retryAttempts = 0, signal }: RequestOptions = {}
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    const isLastAttempt = attempt >= retryAttempts;
+
+    try {
+      // Only the request itself holds a limiter slot, not the backoff sleep
+      const { response, data } = await limiter.run(async () => {
+        const response = await fetch(`${API_BASE}${path}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+          signal,
+        });
+        const data = await response.json().catch(() => ({ success: false }));
+        return { response, data };
+      });
+
+      const result = { ...data, attempts: attempt + 1 } as T;
+      if (!response.ok) {
+        result.success = false;
+        result.error = result.error || `HTTP ${response.status}`;
+      }
+
+      // A page skipped by crawl policy is a decision, not a failure - whatever its reason says
+      if (result.success || result.skipped || isLastAttempt || !isRetryableError(result.error, response.status)) {
+        return result;
+      }
+
+      console.log(`[postWithRetry] ${path} attempt ${attempt + 1} failed, retrying:`, result.error);
+    } catch (error) {
+      // fetch() only throws on abort or network failure; the latter is always transient
+      if (signal?.aborted || isLastAttempt) throw error;
+      console.log(`[postWithRetry] ${path} attempt ${attempt + 1} threw, retrying:`, error);
+    }
+
+    await sleep(getRetryDelay(attempt), signal);
+  }
+}
+
 /**
  * Scrape a URL via the backend
  */
-async function scrapeUrl(url: string): Promise<ScrapeResult> {
+async function scrapeUrl(
+  url: string,
+  provider: ScrapeProviderName,
+  request: RequestOptions = {}
+): Promise<ScrapeResult> {
   if (!isEnrichmentReady()) throw new Error('API not initialized');
 
-  console.log('[scrapeUrl] Scraping:', url);
-  const response = await fetch(`${API_BASE}/scrape`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      url,
-      // Only pass key if not using server env vars
-      ...(apiKeys && !serverHasEnvVars ? { firecrawlKey: apiKeys.firecrawlKey } : {}),
-    }),
-  });
+  console.log('[scrapeUrl] Scraping:', url, 'via', provider);
+  const result = await postWithRetry<ScrapeResult>('/scrape', {
+    url,
+    provider,
+    // Only pass key if not using server env vars
+    ...(apiKeys && !serverHasEnvVars ? { firecrawlKey: apiKeys.firecrawlKey } : {}),
+  }, firecrawlLimiter, request);
 
-  const result = await response.json();
   console.log('[scrapeUrl] Result for', url, ':', result.success, result.error || '');
   return result;
 }
@@ -125,89 +328,328 @@ async function scrapeUrl(url: string): Promise<ScrapeResult> {
 /**
  * Extract emails via the backend
  */
-async function extractEmails(content: string, domain: string): Promise<EmailExtractionResult> {
+async function extractEmails(
+  content: string,
+  domain: string,
+  profile: boolean,
+  request: RequestOptions = {}
+): Promise<EmailExtractionResult> {
   if (!isEnrichmentReady()) throw new Error('API not initialized');
 
-  const response = await fetch(`${API_BASE}/extract-emails`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      content,
-      domain,
-      // Only pass key if not using server env vars
-      ...(apiKeys && !serverHasEnvVars ? { anthropicKey: apiKeys.anthropicKey } : {}),
-    }),
-  });
+  const result = await postWithRetry<EmailExtractionResult>('/extract-emails', {
+    content,
+    domain,
+    profile,
+    // Only pass key if not using server env vars
+    ...anthropicKeyParam(),
+  }, anthropicLimiter, request);
+
+  return { ...result, method: 'ai' };
+}
+
+/**
+ * Hybrid extraction: a deterministic regex pass first, Claude only when it is ambiguous
+ * A plain same-domain address on the page needs no LLM call at all - unless a company
+ * profile is wanted, in which case one call covers both.
+ * Obfuscated addresses ("info [at] acme [dot] com") are decoded before either pass.
+ */
+async function findEmails(
+  content: string,
+  websiteUrl: string,
+  request: RequestOptions = {},
+  { profile = false }: { profile?: boolean } = {}
+): Promise<EmailExtractionResult> {
+  const candidates = extractEmailCandidates(content);
+  const isDeobfuscated = (email?: string) =>
+    !!email && candidates.some(c => c.deobfuscated && c.email.toLowerCase() === email.toLowerCase());
+
+  const local = extractEmailDeterministically(content, websiteUrl);
+  const localResult: EmailExtractionResult | null = local?.primaryEmail
+    ? {
+        success: true,
+        emails: local.emails,
+        primaryEmail: local.primaryEmail,
+        confidence: local.confidence,
+        method: 'local',
+        deobfuscated: isDeobfuscated(local.primaryEmail),
+        inputTokens: 0,
+        outputTokens: 0,
+      }
+    : null;
+
+  if (localResult && !profile) {
+    return { ...localResult, profile: mergeCompanyProfile(undefined, content) };
+  }
+
+  let result: EmailExtractionResult;
+  try {
+    result = await extractEmails(deobfuscateContent(content), extractDomain(websiteUrl), profile, request);
+  } catch (error) {
+    // The regex already has the email; losing the profile isn't worth failing the lead
+    if (!localResult || request.signal?.aborted) throw error;
+    return { ...localResult, profile: mergeCompanyProfile(undefined, content) };
+  }
+  const companyProfile = mergeCompanyProfile(result.profile, content);
+
+  // The call was only for the profile - the regex result still decides the email
+  if (localResult) {
+    return {
+      ...localResult,
+      profile: companyProfile,
+      usedModel: true,
+      inputTokens: result.inputTokens || 0,
+      outputTokens: result.outputTokens || 0,
+      attempts: result.attempts,
+    };
+  }
 
-  return response.json();
+  return { ...result, profile: companyProfile, deobfuscated: isDeobfuscated(result.primaryEmail) };
+}
+
+/**
+ * Check deliverability (syntax, MX, disposable, role, suspected catch-all) via the backend
+ */
+async function verifyEmails(
+  emails: string[],
+  inferred: boolean,
+  request: RequestOptions = {}
+): Promise<VerificationResult> {
+  return postWithRetry<VerificationResult>('/verify-emails', { emails, inferred }, dnsLimiter, request);
+}
+
+/**
+ * Pick the best address that isn't known to bounce, with its verdict
+ * Falls back to the original primary when verification is unavailable or everything bounces
+ */
+function chooseDeliverableEmail(
+  emails: string[],
+  primaryEmail: string,
+  verdicts: Record<string, DeliverabilityVerdict>
+): { email: string; verdict?: DeliverabilityVerdict } {
+  const ordered = [primaryEmail, ...emails.filter(e => e !== primaryEmail)];
+  const email = ordered.find(e => verdicts[e] && verdicts[e].status !== 'undeliverable') || primaryEmail;
+  return { email, verdict: verdicts[email] };
+}
+
+/**
+ * Knowledge base text for icebreaker and hook prompts: the ICP, pain point and proof point sections
+ * when the framework has them, otherwise the whole thing (the handler trims it)
+ */
+export function icebreakerOffer(knowledgeBase: KnowledgeBase | null | undefined): string | undefined {
+  if (!knowledgeBase?.content.trim()) return undefined;
+  return formatOfferContext(extractOfferContext(knowledgeBase.content)) || knowledgeBase.content;
 }
 
 /**
  * Generate icebreaker via the backend
+ * With an offer, the icebreaker opens on whichever site fact best leads into it
  */
 async function generateIcebreaker(
   content: string,
   companyName: string | undefined,
   domain: string,
-  tone: string
+  tone: string,
+  context: { profile?: CompanyProfile; offer?: string; previous?: { icebreaker: string; problems: string[] } },
+  request: RequestOptions = {}
 ): Promise<IcebreakerResult> {
   if (!isEnrichmentReady()) throw new Error('API not initialized');
 
-  const response = await fetch(`${API_BASE}/generate-icebreaker`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      content,
-      companyName,
-      domain,
-      tone,
-      // Only pass key if not using server env vars
-      ...(apiKeys && !serverHasEnvVars ? { anthropicKey: apiKeys.anthropicKey } : {}),
-    }),
-  });
-
-  return response.json();
+  return postWithRetry<IcebreakerResult>('/generate-icebreaker', {
+    content,
+    companyName,
+    domain,
+    tone,
+    companyProfile: formatCompanyProfile(context.profile) || undefined,
+    offer: context.offer,
+    previousIcebreaker: context.previous?.icebreaker,
+    feedback: context.previous?.problems,
+    // Only pass key if not using server env vars
+    ...anthropicKeyParam(),
+  }, anthropicLimiter, request);
 }
 
 /**
- * Scrape a URL looking for contact information
+ * Generate an icebreaker and put it through the quality checks, regenerating with the
+ * problems as feedback up to maxRegenerations times
+ * The attempt with the fewest problems is kept; any left are returned for the lead to be flagged
  */
-async function scrapeForContact(baseUrl: string): Promise<ScrapeResult> {
-  // First try the main page
-  const mainResult = await scrapeUrl(baseUrl);
+async function generateCheckedIcebreaker(
+  content: string,
+  companyName: string | undefined,
+  domain: string,
+  tone: EnrichmentConfig['icebreakerTone'],
+  context: { profile?: CompanyProfile; offer?: string },
+  maxRegenerations: number,
+  request: RequestOptions = {}
+): Promise<IcebreakerResult> {
+  let best: IcebreakerResult | null = null;
+  let previous: { icebreaker: string; problems: string[] } | undefined;
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let attempts = 1;
+  let generations = 0;
+
+  for (let i = 0; i <= maxRegenerations; i++) {
+    const result = await generateIcebreaker(content, companyName, domain, tone, { ...context, previous }, request);
+    inputTokens += result.inputTokens;
+    outputTokens += result.outputTokens;
+    attempts = Math.max(attempts, result.attempts || 1);
+    generations++;
+
+    // A failed request isn't a quality problem - report it rather than burning regenerations
+    if (!result.success || !result.icebreaker) {
+      if (!best) best = result;
+      break;
+    }
+
+    // Strip wrapping quotes and "Icebreaker:" prefixes before judging it
+    const icebreaker = parseIcebreakerResponse(result.icebreaker, content, tone).icebreaker;
+    const { problems } = reviewIcebreaker(icebreaker, { siteContent: content, companyName, domain });
+    const candidate: IcebreakerResult = { ...result, icebreaker, problems };
 
-  // If we found emails in the main page, return it
-  if (mainResult.success && mainResult.markdown && containsEmail(mainResult.markdown)) {
-    return mainResult;
+    if (!best || problems.length < (best.problems?.length ?? Infinity)) best = candidate;
+    if (problems.length === 0) break;
+    previous = { icebreaker, problems };
   }
 
-  // Try common contact page paths
-  const contactPaths = ['/contact', '/contact-us', '/about'];
-  const normalizedUrl = baseUrl.replace(/\/$/, '');
+  return { ...best!, inputTokens, outputTokens, attempts, generations };
+}
+
+/**
+ * Generate A/B hooks via the backend
+ */
+async function generateHook(
+  content: string,
+  companyName: string | undefined,
+  domain: string,
+  offer: string | undefined,
+  profile: CompanyProfile | undefined,
+  request: RequestOptions = {}
+): Promise<HookResult> {
+  if (!isEnrichmentReady()) throw new Error('API not initialized');
+
+  return postWithRetry<HookResult>('/generate-hook', {
+    content,
+    companyName,
+    domain,
+    knowledgeBase: offer,
+    companyProfile: formatCompanyProfile(profile) || undefined,
+    // Only pass key if not using server env vars
+    ...anthropicKeyParam(),
+  }, anthropicLimiter, request);
+}
+
+/**
+ * Crawl a lead's site into a dossier: the homepage, then the contact/about/team pages
+ * linked from it (guessing common paths when the links don't reveal them)
+ * Bounded by maxPages kept and maxDepth links followed; fetches are capped too so
+ * a site full of dead links can't run away with the scrape budget
+ */
+async function crawlSite(
+  baseUrl: string,
+  options: CrawlOptions,
+  request: RequestOptions = {}
+): Promise<CrawlSiteResult> {
+  const { provider, maxPages, maxDepth } = options;
+  const maxFetches = maxPages * 2;
+  const homeUrl = normalizeUrl(baseUrl);
+  const pages: DossierPage[] = [];
+  const skipped: DossierSkippedPage[] = [];
+  const queue: CrawlTarget[] = [{ url: homeUrl, kind: 'home', depth: 0 }];
+  const seen = new Set([pageKey(homeUrl)]);
+  let fetches = 0;
+  let attempts = 1;
+  let homeError: string | undefined;
+
+  const enqueue = (targets: CrawlTarget[]) => {
+    for (const target of targets) {
+      const key = pageKey(target.url);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      queue.push(target);
+    }
+    queue.sort(compareCrawlTargets);
+  };
+
+  while (queue.length > 0 && pages.length < maxPages && fetches < maxFetches) {
+    const target = queue.shift()!;
+
+    // A guessed path is only worth a fetch if the site hasn't already given us that kind of page
+    if (target.guessed && pages.some(page => page.kind === target.kind)) continue;
 
-  for (const path of contactPaths) {
+    let result: ScrapeResult;
     try {
-      const contactUrl = `${normalizedUrl}${path}`;
-      const result = await scrapeUrl(contactUrl);
+      result = await scrapeUrl(target.url, provider, request);
+    } catch (error) {
+      if (request.signal?.aborted) throw error;
+      fetches++;
+      continue;
+    }
+    attempts = Math.max(attempts, result.attempts || 1);
 
-      if (result.success && result.markdown && containsEmail(result.markdown)) {
-        return result;
+    // Pages robots.txt rules out never reached the site, so they don't use up the fetch budget
+    if (result.skipped) {
+      skipped.push({ url: target.url, kind: target.kind, errorMessage: result.error || 'Skipped by crawl policy' });
+    } else {
+      fetches++;
+    }
+
+    if (result.success && result.markdown) {
+      pages.push({
+        url: target.url,
+        kind: target.kind,
+        markdown: result.markdown,
+        title: result.title,
+        depth: target.depth,
+        ...(result.cache === 'hit' ? { cached: true } : {}),
+      });
+
+      if (target.depth < maxDepth && result.links) {
+        enqueue(discoverCrawlTargets(result.links, homeUrl, target.depth + 1));
       }
-    } catch {
-      // Continue to next path
+    } else if (target.kind === 'home') {
+      homeError = result.error;
+    }
+
+    // Once the homepage's links are in, fill the gaps with common paths
+    if (target.kind === 'home') {
+      enqueue(guessCrawlTargets(homeUrl, new Set(queue.map(t => t.kind))));
     }
   }
 
-  // Return the main page result
-  return mainResult;
+  return {
+    success: pages.length > 0,
+    dossier: {
+      website: baseUrl,
+      pages,
+      crawledAt: new Date().toISOString(),
+      ...(skipped.length > 0 ? { skipped } : {}),
+    },
+    attempts,
+    fetches,
+    ...(pages.length > 0 ? {} : { error: homeError || 'Failed to scrape website' }),
+  };
 }
 
 /**
- * Quick check if content contains email-like patterns
+ * Crawl limits for a run
  */
-function containsEmail(content: string): boolean {
-  const emailRegex = /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/;
-  return emailRegex.test(content);
+function getCrawlOptions(config: EnrichmentConfig): CrawlOptions {
+  return {
+    provider: config.scrapeProvider || DEFAULT_CONFIG.scrapeProvider,
+    maxPages: config.maxCrawlPages || DEFAULT_CONFIG.maxCrawlPages,
+    maxDepth: config.maxCrawlDepth ?? DEFAULT_CONFIG.maxCrawlDepth,
+  };
+}
+
+/**
+ * Add a dossier's pages to the run's usage, split by whether the scrape cache served them
+ */
+function countScrapedPages(usage: ScrapedPageUsage, dossier: LeadDossier): void {
+  for (const page of dossier.pages) {
+    if (page.cached) usage.cached++;
+    else usage.fresh++;
+  }
 }
 
 /**
@@ -218,10 +660,21 @@ export async function enrichLead(
   options: {
     generateIcebreaker?: boolean;
     icebreakerTone?: 'professional' | 'casual' | 'friendly';
-  } = {}
+    icebreakerOffer?: string;
+    icebreakerMaxRegenerations?: number;
+    crawl?: CrawlOptions;
+    extractProfile?: boolean;
+    targetRoles?: string[];
+  } & RequestOptions = {}
 ): Promise<EnrichmentResult> {
   const domain = extractDomain(lead.website);
   const result: EnrichmentResult = { lead: { ...lead } };
+  const request: RequestOptions = { retryAttempts: options.retryAttempts, signal: options.signal };
+
+  // Record the most attempts any single request needed (1 = no retries)
+  const recordAttempts = (attempts?: number) => {
+    result.lead.attempts = Math.max(result.lead.attempts || 1, attempts || 1);
+  };
 
   // Skip invalid domains
   if (!lead.domainValidation?.isValid) {
@@ -230,43 +683,142 @@ export async function enrichLead(
   }
 
   try {
-    // Step 1: Scrape the website
+    // Step 1: Crawl the website into a dossier
     result.lead.enrichmentStatus = 'processing';
-    const scrapeResult = await scrapeForContact(lead.website);
-    result.scrapeResult = scrapeResult;
+    result.lead.attempts = 1;
+    const crawlResult = await crawlSite(lead.website, options.crawl || getCrawlOptions(DEFAULT_CONFIG), request);
+    result.crawlResult = crawlResult;
+    recordAttempts(crawlResult.attempts);
 
-    if (!scrapeResult.success || !scrapeResult.markdown) {
+    if (!crawlResult.success) {
       result.lead.enrichmentStatus = 'failed';
-      result.lead.errorMessage = scrapeResult.error || 'Failed to scrape website';
+      result.lead.errorMessage = crawlResult.error || 'Failed to scrape website';
       return result;
     }
+    const { dossier } = crawlResult;
 
-    // Step 2: Extract emails using AI
-    const emailResult = await extractEmails(scrapeResult.markdown, domain);
+    // Step 2: Extract emails (regex pre-pass, AI fallback) - contact page first
+    // The company profile comes from the same call when one is wanted
+    const emailResult = await findEmails(selectDossierContent(dossier, 'email'), lead.website, request, {
+      profile: options.extractProfile,
+    });
     result.emailResult = emailResult;
+    recordAttempts(emailResult.attempts);
+
+    if (!isCompanyProfileEmpty(emailResult.profile)) {
+      result.lead.companyProfile = emailResult.profile;
+    }
+
+    if (!emailResult.success) {
+      // The extraction call itself failed - a guess would hide that, and the lead would never be retried
+      result.lead.enrichmentStatus = 'failed';
+      result.lead.errorMessage = emailResult.error || 'Email extraction failed';
+      return result;
+    }
 
-    if (emailResult.success && emailResult.primaryEmail) {
+    if (emailResult.primaryEmail) {
       result.lead.email = emailResult.primaryEmail;
+      result.lead.emailDeobfuscated = emailResult.deobfuscated || undefined;
+    } else {
+      // Nothing published - guess from names on the lead or the About/Team pages
+      const inferred = inferEmailsForLead(lead, selectDossierContent(dossier, 'people'), emailResult.emails);
+      if (inferred.primaryEmail) {
+        result.emailResult = {
+          ...emailResult,
+          success: true,
+          emails: inferred.emails,
+          primaryEmail: inferred.primaryEmail,
+          confidence: inferred.confidence,
+          source: 'inferred',
+        };
+        result.lead.email = inferred.primaryEmail;
+        result.lead.emailSource = 'inferred';
+      }
+    }
+
+    // Step 2a: Decision-makers - named people from the team/leadership pages, best role match first
+    const contacts = discoverContacts(selectDossierContent(dossier, 'people'), lead.website, {
+      targetRoles: options.targetRoles || DEFAULT_CONFIG.targetRoles,
+      knownEmails: result.emailResult?.emails,
+      keyPeople: result.lead.companyProfile?.keyPeople,
+    });
+    if (contacts.length > 0) {
+      // A target person's published address beats a shared inbox or a guess
+      const decisionMaker = contacts.find(c => c.matchedRole && c.emailSource === 'page_content');
+      const current = result.lead.email;
+      if (decisionMaker?.email && (!current || isRoleAccount(current) || result.lead.emailSource === 'inferred')) {
+        result.lead.email = decisionMaker.email;
+        result.lead.emailSource = undefined;
+        result.lead.emailDeobfuscated = undefined;
+        result.emailResult = {
+          ...emailResult,
+          success: true,
+          emails: [decisionMaker.email, ...emailResult.emails.filter(e => e !== decisionMaker.email)],
+          primaryEmail: decisionMaker.email,
+          source: 'page_content',
+        };
+      }
     }
 
+    // Step 2b: Deliverability check - skip past addresses that would bounce
+    if (result.lead.email && result.emailResult?.emails) {
+      try {
+        const candidates = [...new Set([result.lead.email, ...result.emailResult.emails])].slice(0, 5);
+        const verificationResult = await verifyEmails(candidates, result.lead.emailSource === 'inferred', request);
+        result.verificationResult = verificationResult;
+        recordAttempts(verificationResult.attempts);
+
+        if (verificationResult.success) {
+          const { email, verdict } = chooseDeliverableEmail(candidates, result.lead.email, verificationResult.verdicts);
+          if (email !== result.lead.email) result.lead.emailDeobfuscated = undefined;
+          result.lead.email = email;
+          result.lead.deliverability = verdict;
+        }
+      } catch (error) {
+        if (request.signal?.aborted) throw error;
+        // Verification is best-effort - keep the email without a verdict
+      }
+    }
+
+    // Keep every candidate, not just the winner - the user picks who to write to
+    // emailResult.emails is only what the site published; inferred guesses stay off the list
+    const leadContacts = buildLeadContacts(contacts, emailResult.emails, {
+      primaryEmail: result.lead.email,
+      primaryConfidence: result.emailResult?.confidence,
+      primaryInferred: result.lead.emailSource === 'inferred',
+      websiteUrl: lead.website,
+      verdicts: result.verificationResult?.verdicts,
+    });
+    if (leadContacts.length > 0) result.lead.contacts = leadContacts;
+
     // Step 3: Generate icebreaker if requested
-    if (options.generateIcebreaker && scrapeResult.markdown) {
-      const icebreakerResult = await generateIcebreaker(
-        scrapeResult.markdown,
+    if (options.generateIcebreaker) {
+      const icebreakerResult = await generateCheckedIcebreaker(
+        selectDossierContent(dossier, 'personalisation'),
         lead.company,
         domain,
-        options.icebreakerTone || 'professional'
+        options.icebreakerTone || 'professional',
+        { profile: result.lead.companyProfile, offer: options.icebreakerOffer },
+        options.icebreakerMaxRegenerations ?? DEFAULT_CONFIG.icebreakerMaxRegenerations,
+        request
       );
       result.icebreakerResult = icebreakerResult;
+      recordAttempts(icebreakerResult.attempts);
 
       if (icebreakerResult.success && icebreakerResult.icebreaker) {
         result.lead.icebreaker = icebreakerResult.icebreaker;
+        result.lead.icebreakerRationale = icebreakerResult.rationale;
+        if (icebreakerResult.problems?.length) result.lead.icebreakerReview = icebreakerResult.problems;
       }
     }
 
     result.lead.enrichmentStatus = 'completed';
     return result;
   } catch (error) {
+    // A cancelled lead goes back to pending so a resumed run picks it up again
+    if (options.signal?.aborted) {
+      return { lead: { ...lead, enrichmentStatus: 'pending' } };
+    }
     result.lead.enrichmentStatus = 'failed';
     result.lead.errorMessage = error instanceof Error ? error.message : 'Unknown error';
     return result;
@@ -279,7 +831,8 @@ export async function enrichLead(
 export async function findEmailsForLeads(
   leads: EnrichedLead[],
   config: EnrichmentConfig,
-  onProgress?: (progress: EnrichmentProgress, result: EnrichmentResult) => void
+  onProgress?: (progress: EnrichmentProgress, result: EnrichmentResult) => void,
+  signal?: AbortSignal
 ): Promise<EnrichmentResult[]> {
   console.log('[findEmailsForLeads] Starting with', leads.length, 'leads');
   console.log('[findEmailsForLeads] API keys initialized:', isEnrichmentReady());
@@ -291,12 +844,16 @@ export async function findEmailsForLeads(
   console.log('[findEmailsForLeads] Leads with existing emails (skipping):', leadsWithEmails.length);
   console.log('[findEmailsForLeads] Leads needing email discovery:', leadsNeedingEmails.length);
 
-  const validLeads = leadsNeedingEmails.filter(l => l.domainValidation?.isValid);
+  // Only pending leads are processed, so a resumed run continues where the last one stopped
+  // (a fresh run resets every lead to pending before calling this)
+  const validLeads = leadsNeedingEmails.filter(
+    l => l.domainValidation?.isValid && l.enrichmentStatus === 'pending'
+  );
   console.log('[findEmailsForLeads] Valid leads to process:', validLeads.length);
   console.log('[findEmailsForLeads] Sample lead:', leads[0]);
 
   const results: EnrichmentResult[] = [];
-  const usage = { inputTokens: 0, outputTokens: 0, scrapedPages: 0 };
+  const usage = { inputTokens: 0, outputTokens: 0, scrapedPages: { fresh: 0, cached: 0 } };
 
   // Add leads with existing emails directly to results (already completed)
   for (const lead of leadsWithEmails) {
@@ -305,49 +862,50 @@ export async function findEmailsForLeads(
     });
   }
 
-  // Process with concurrency control
-  const { maxConcurrency } = config;
+  // Keep maxConcurrency leads in flight; a slow site only holds up its own slot
+  applyConcurrencyLimits(config);
+  let completed = 0;
 
-  for (let i = 0; i < validLeads.length; i += maxConcurrency) {
-    const batch = validLeads.slice(i, i + maxConcurrency);
-
-    const batchResults = await Promise.all(
-      batch.map(async (lead, batchIndex) => {
-        const globalIndex = i + batchIndex;
-
-        onProgress?.({
-          stage: 'scraping',
-          currentIndex: globalIndex,
-          totalCount: validLeads.length,
-          currentLead: lead.website,
-          usage,
-        }, { lead });
+  const poolResults = await runPool(validLeads, config.maxConcurrency, async (lead) => {
+    onProgress?.({
+      stage: 'scraping',
+      currentIndex: completed,
+      totalCount: validLeads.length,
+      currentLead: lead.website,
+      usage,
+    }, { lead });
 
-        const result = await enrichLead(lead, { generateIcebreaker: false });
+    const result = await enrichLead(lead, {
+      generateIcebreaker: false,
+      crawl: getCrawlOptions(config),
+      extractProfile: config.extractCompanyProfile ?? DEFAULT_CONFIG.extractCompanyProfile,
+      targetRoles: config.targetRoles,
+      retryAttempts: config.retryAttempts,
+      signal,
+    });
 
-        // Track usage
-        if (result.emailResult) {
-          usage.inputTokens += result.emailResult.inputTokens;
-          usage.outputTokens += result.emailResult.outputTokens;
-        }
-        if (result.scrapeResult?.success) {
-          usage.scrapedPages++;
-        }
+    // Track usage
+    if (result.emailResult) {
+      usage.inputTokens += result.emailResult.inputTokens;
+      usage.outputTokens += result.emailResult.outputTokens;
+    }
+    if (result.crawlResult) {
+      countScrapedPages(usage.scrapedPages, result.crawlResult.dossier);
+    }
 
-        onProgress?.({
-          stage: 'extracting',
-          currentIndex: globalIndex + 1,
-          totalCount: validLeads.length,
-          currentLead: lead.website,
-          usage,
-        }, result);
+    if (result.lead.enrichmentStatus !== 'pending') completed++;
+    onProgress?.({
+      stage: 'extracting',
+      currentIndex: completed,
+      totalCount: validLeads.length,
+      currentLead: lead.website,
+      usage,
+    }, result);
 
-        return result;
-      })
-    );
+    return result;
+  }, signal);
 
-    results.push(...batchResults);
-  }
+  results.push(...poolResults);
 
   // Add results for skipped (invalid) leads - only those that needed email discovery
   const skippedLeads = leadsNeedingEmails.filter(l => !l.domainValidation?.isValid);
@@ -360,78 +918,194 @@ export async function findEmailsForLeads(
 
 /**
  * Generate icebreakers for selected leads
+ * A knowledge base is only used when config.icebreakerUseKnowledgeBase is on
  */
 export async function generateIcebreakersForLeads(
   leads: EnrichedLead[],
-  scrapedContent: Map<string, string>,
+  dossiers: Map<string, LeadDossier>,
+  knowledgeBase: KnowledgeBase | null,
   config: EnrichmentConfig,
-  onProgress?: (progress: EnrichmentProgress, result: EnrichmentResult) => void
+  onProgress?: (progress: EnrichmentProgress, result: EnrichmentResult) => void,
+  signal?: AbortSignal
 ): Promise<EnrichmentResult[]> {
-  const results: EnrichmentResult[] = [];
-  const usage = { inputTokens: 0, outputTokens: 0, scrapedPages: 0 };
-
-  for (let i = 0; i < leads.length; i++) {
-    const lead = leads[i];
+  const request: RequestOptions = { retryAttempts: config.retryAttempts, signal };
+  const usage = { inputTokens: 0, outputTokens: 0, scrapedPages: { fresh: 0, cached: 0 } };
+  const offer = (config.icebreakerUseKnowledgeBase ?? DEFAULT_CONFIG.icebreakerUseKnowledgeBase)
+    ? icebreakerOffer(knowledgeBase)
+    : undefined;
+  applyConcurrencyLimits(config);
+  let completed = 0;
+
+  return runPool(leads, config.maxConcurrency, async (lead) => {
     const domain = extractDomain(lead.website);
-    let content = scrapedContent.get(lead.website) || '';
+    let content = selectDossierContent(dossiers.get(lead.website), 'personalisation');
 
     onProgress?.({
       stage: 'icebreaker',
-      currentIndex: i,
+      currentIndex: completed,
       totalCount: leads.length,
       currentLead: lead.website,
       usage,
     }, { lead });
 
-    let icebreakerResult: IcebreakerResult;
+    try {
+      let icebreakerResult: IcebreakerResult;
+
+      // If we don't have a dossier for this lead, crawl again
+      if (!content) {
+        const crawlResult = await crawlSite(lead.website, getCrawlOptions(config), request);
+        if (crawlResult.success) {
+          content = selectDossierContent(crawlResult.dossier, 'personalisation');
+          dossiers.set(lead.website, crawlResult.dossier);
+          countScrapedPages(usage.scrapedPages, crawlResult.dossier);
+        }
+      }
 
-    // If we don't have cached content, scrape again
-    if (!content) {
-      const scrapeResult = await scrapeForContact(lead.website);
-      if (scrapeResult.success && scrapeResult.markdown) {
-        content = scrapeResult.markdown;
-        usage.scrapedPages++;
+      if (content) {
+        icebreakerResult = await generateCheckedIcebreaker(
+          content,
+          lead.company,
+          domain,
+          config.icebreakerTone,
+          { profile: lead.companyProfile, offer },
+          config.icebreakerMaxRegenerations ?? DEFAULT_CONFIG.icebreakerMaxRegenerations,
+          request
+        );
+      } else {
+        icebreakerResult = {
+          success: false,
+          icebreaker: '',
+          inputTokens: 0,
+          outputTokens: 0,
+          error: 'No content available',
+        };
       }
-    }
 
-    if (content) {
-      icebreakerResult = await generateIcebreaker(
-        content,
-        lead.company,
-        domain,
-        config.icebreakerTone
-      );
-    } else {
-      icebreakerResult = {
-        success: false,
-        icebreaker: '',
-        inputTokens: 0,
-        outputTokens: 0,
-        error: 'No content available',
+      usage.inputTokens += icebreakerResult.inputTokens;
+      usage.outputTokens += icebreakerResult.outputTokens;
+
+      const result: EnrichmentResult = {
+        lead: {
+          ...lead,
+          icebreaker: icebreakerResult.icebreaker || undefined,
+          icebreakerRationale: icebreakerResult.rationale,
+          icebreakerReview: icebreakerResult.problems?.length ? icebreakerResult.problems : undefined,
+          attempts: Math.max(lead.attempts || 1, icebreakerResult.attempts || 1),
+        },
+        icebreakerResult,
       };
-    }
 
-    usage.inputTokens += icebreakerResult.inputTokens;
-    usage.outputTokens += icebreakerResult.outputTokens;
+      completed++;
+      onProgress?.({
+        stage: 'icebreaker',
+        currentIndex: completed,
+        totalCount: leads.length,
+        currentLead: lead.website,
+        usage,
+      }, result);
 
-    const result: EnrichmentResult = {
-      lead: {
-        ...lead,
-        icebreaker: icebreakerResult.icebreaker || undefined,
-      },
-      icebreakerResult,
-    };
+      return result;
+    } catch (error) {
+      // Leave the lead untouched when the run is paused or cancelled mid-request
+      if (signal?.aborted) return { lead };
+      throw error;
+    }
+  }, signal);
+}
 
-    results.push(result);
+/**
+ * Generate per-lead hooks and render the full campaign sequence for each lead
+ * Hooks are only generated when the campaign actually uses {{hook}}
+ */
+export async function generateHooksForLeads(
+  leads: CampaignLead[],
+  dossiers: Map<string, LeadDossier>,
+  campaign: Campaign,
+  knowledgeBase: KnowledgeBase | null,
+  config: EnrichmentConfig,
+  onProgress?: (progress: EnrichmentProgress, result: HookGenerationResult) => void,
+  signal?: AbortSignal
+): Promise<HookGenerationResult[]> {
+  const request: RequestOptions = { retryAttempts: config.retryAttempts, signal };
+  const usage = { inputTokens: 0, outputTokens: 0, scrapedPages: { fresh: 0, cached: 0 } };
+  const needsHook = campaignUsesHook(campaign);
+  const offer = icebreakerOffer(knowledgeBase);
+  applyConcurrencyLimits(config);
+  let completed = 0;
+
+  return runPool(leads, config.maxConcurrency, async (lead) => {
+    const domain = extractDomain(lead.website);
 
     onProgress?.({
-      stage: 'icebreaker',
-      currentIndex: i + 1,
+      stage: 'hook',
+      currentIndex: completed,
       totalCount: leads.length,
       currentLead: lead.website,
       usage,
-    }, result);
-  }
+    }, { lead });
 
-  return results;
+    try {
+      let hookResult: HookResult | undefined;
+
+      if (needsHook) {
+        let content = selectDossierContent(dossiers.get(lead.website), 'personalisation');
+
+        // If we don't have a dossier for this lead, crawl again
+        if (!content) {
+          const crawlResult = await crawlSite(lead.website, getCrawlOptions(config), request);
+          if (crawlResult.success) {
+            content = selectDossierContent(crawlResult.dossier, 'personalisation');
+            dossiers.set(lead.website, crawlResult.dossier);
+            countScrapedPages(usage.scrapedPages, crawlResult.dossier);
+          }
+        }
+
+        if (content) {
+          hookResult = await generateHook(
+            content,
+            lead.company,
+            domain,
+            offer,
+            lead.companyProfile,
+            request
+          );
+        } else {
+          hookResult = {
+            success: false,
+            hook: { variantA: '', variantB: '' },
+            inputTokens: 0,
+            outputTokens: 0,
+            error: 'No content available',
+          };
+        }
+
+        usage.inputTokens += hookResult.inputTokens;
+        usage.outputTokens += hookResult.outputTokens;
+      }
+
+      const campaignLead: CampaignLead = {
+        ...lead,
+        campaignId: campaign.id,
+        hook: hookResult?.success ? hookResult.hook : lead.hook,
+      };
+      campaignLead.emails = renderLeadEmails(campaignLead, campaign);
+
+      const result: HookGenerationResult = { lead: campaignLead, hookResult };
+
+      completed++;
+      onProgress?.({
+        stage: 'hook',
+        currentIndex: completed,
+        totalCount: leads.length,
+        currentLead: lead.website,
+        usage,
+      }, result);
+
+      return result;
+    } catch (error) {
+      // Leave the lead untouched when the run is paused or cancelled mid-request
+      if (signal?.aborted) return { lead };
+      throw error;
+    }
+  }, signal);
 }
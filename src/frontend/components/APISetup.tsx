@@ -22,11 +22,6 @@ function APISetup({ onComplete, initialAnthropicKey = '', initialFirecrawlKey =
       return;
     }
 
-    if (!firecrawlKey.trim()) {
-      setError('Firecrawl API key is required');
-      return;
-    }
-
     // Basic validation of key formats
     if (!anthropicKey.startsWith('sk-ant-')) {
       setError('Anthropic API key should start with "sk-ant-"');
@@ -86,7 +81,7 @@ function APISetup({ onComplete, initialAnthropicKey = '', initialFirecrawlKey =
 
           <div className="form-group">
             <label htmlFor="firecrawl-key">
-              <span className="label-text">Firecrawl API Key</span>
+              <span className="label-text">Firecrawl API Key (optional)</span>
               <a
                 href="https://firecrawl.dev/"
                 target="_blank"
@@ -105,7 +100,7 @@ function APISetup({ onComplete, initialAnthropicKey = '', initialFirecrawlKey =
               className="form-input"
               autoComplete="off"
             />
-            <span className="input-hint">Used for fast, reliable website scraping</span>
+            <span className="input-hint">Used for fast, reliable website scraping. Without it, use the built-in scraper</span>
           </div>
 
           {error && (
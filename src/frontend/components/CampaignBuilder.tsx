@@ -1,17 +1,22 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { motion } from 'framer-motion';
-import type { KnowledgeBase, Campaign, SequenceEmail, EmailPosition, EmailComponentType } from '../../agent/types';
+import type { KnowledgeBase, Campaign, SequenceEmail, EmailPosition, EmailComponentType, EnrichedLead, ComponentVariant } from '../../agent/types';
 import { DEFAULT_SEQUENCE as defaultSequence } from '../../agent/types';
 import { saveCampaign, getCampaigns } from '../../utils/localStorage';
+import { anthropicKeyParam } from '../../api/enrichment';
+import { summariseAudience } from '../../agent/companyProfile';
+import { sequenceOutline } from '../../agent/sequence';
+import { BUILT_IN_MERGE_FIELDS, customMergeFields } from '../../utils/mergeFields';
 import EmailEditor from './EmailEditor';
 
 interface CampaignBuilderProps {
   knowledgeBase?: KnowledgeBase;
+  leads?: EnrichedLead[];  // Their company profiles describe who the campaign is going to
   onComplete: (campaign: Campaign) => void;
   onBack?: () => void;
 }
 
-function CampaignBuilder({ knowledgeBase, onComplete, onBack }: CampaignBuilderProps) {
+function CampaignBuilder({ knowledgeBase, leads = [], onComplete, onBack }: CampaignBuilderProps) {
   const [campaignName, setCampaignName] = useState('');
   const [sequence, setSequence] = useState<SequenceEmail[]>(
     JSON.parse(JSON.stringify(defaultSequence)) // Deep copy
@@ -21,16 +26,47 @@ function CampaignBuilder({ knowledgeBase, onComplete, onBack }: CampaignBuilderP
   const [savedCampaigns, setSavedCampaigns] = useState<Campaign[]>([]);
   const [showLoadCampaign, setShowLoadCampaign] = useState(false);
 
+  const audience = useMemo(
+    () => summariseAudience(leads.flatMap(lead => (lead.companyProfile ? [lead.companyProfile] : []))),
+    [leads]
+  );
+
+  // Every other CSV column can be used as a merge field too
+  const customFields = useMemo(() => customMergeFields(leads), [leads]);
+
   // Load saved campaigns
   useEffect(() => {
     setSavedCampaigns(getCampaigns());
   }, []);
 
-  // Generate a single component via AI
+  // One call to the component generator; throws on a failed request
+  const requestComponent = async (body: Record<string, unknown>) => {
+    const response = await fetch('/api/generate-email-component', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        knowledgeBase: knowledgeBase?.content,
+        sequence: sequenceOutline(sequence),
+        audience: audience || undefined,
+        mergeFields: customFields.length > 0 ? customFields : undefined,
+        ...anthropicKeyParam(),
+        ...body,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to generate component');
+    }
+
+    return response.json();
+  };
+
+  // Generate a single variant of a component via AI, steering it away from the other variants
   const handleGenerateComponent = async (
     position: EmailPosition,
     type: EmailComponentType,
-    variant: 'A' | 'B'
+    variant: number,
+    angle?: string
   ): Promise<string> => {
     if (!knowledgeBase) {
       setError('Please select a knowledge base first');
@@ -41,22 +77,14 @@ function CampaignBuilder({ knowledgeBase, onComplete, onBack }: CampaignBuilderP
     setError(null);
 
     try {
-      const response = await fetch('/api/generate-email-component', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          knowledgeBase: knowledgeBase.content,
-          componentType: type,
-          emailPosition: position,
-          variant,
-        }),
+      const component = sequence.find(e => e.position === position)?.components.find(c => c.type === type);
+      const data = await requestComponent({
+        componentType: type,
+        emailPosition: position,
+        variant,
+        angle,
+        existing: component?.variants.filter((_, i) => i !== variant).map(v => v.text),
       });
-
-      if (!response.ok) {
-        throw new Error('Failed to generate component');
-      }
-
-      const data = await response.json();
       return data.content || '';
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Generation failed');
@@ -66,6 +94,31 @@ function CampaignBuilder({ knowledgeBase, onComplete, onBack }: CampaignBuilderP
     }
   };
 
+  // Generate several diverse variants of a component in one request
+  const handleGenerateVariants = async (
+    position: EmailPosition,
+    type: EmailComponentType,
+    count: number
+  ): Promise<ComponentVariant[]> => {
+    if (!knowledgeBase) {
+      setError('Please select a knowledge base first');
+      return [];
+    }
+
+    setIsGenerating(true);
+    setError(null);
+
+    try {
+      const data = await requestComponent({ componentType: type, emailPosition: position, count });
+      return data.variants || [];
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Generation failed');
+      return [];
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
   // Generate all components for all emails
   const handleGenerateAll = async () => {
     if (!knowledgeBase) {
@@ -87,36 +140,19 @@ function CampaignBuilder({ knowledgeBase, onComplete, onBack }: CampaignBuilderP
           const component = email.components.find(c => c.type === type);
           if (!component) continue;
 
-          // Generate variant A
-          const responseA = await fetch('/api/generate-email-component', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              knowledgeBase: knowledgeBase.content,
+          // Every variant in one request, so they come back on different angles
+          try {
+            const data = await requestComponent({
               componentType: type,
               emailPosition: email.position,
-              variant: 'A',
-            }),
-          });
-          if (responseA.ok) {
-            const dataA = await responseA.json();
-            component.variantA = dataA.content || component.variantA;
-          }
-
-          // Generate variant B
-          const responseB = await fetch('/api/generate-email-component', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              knowledgeBase: knowledgeBase.content,
-              componentType: type,
-              emailPosition: email.position,
-              variant: 'B',
-            }),
-          });
-          if (responseB.ok) {
-            const dataB = await responseB.json();
-            component.variantB = dataB.content || component.variantB;
+              count: component.variants.length,
+            });
+            const generated: ComponentVariant[] = data.variants || [];
+            component.variants = component.variants.map((variant, i) =>
+              generated[i] ? { ...variant, ...generated[i] } : variant
+            );
+          } catch {
+            // Leave this component as it was and carry on with the rest
           }
         }
       }
@@ -138,7 +174,7 @@ function CampaignBuilder({ knowledgeBase, onComplete, onBack }: CampaignBuilderP
 
     // Check if any content has been added
     const hasContent = sequence.some(email =>
-      email.components.some(c => c.variantA.trim() || c.variantB.trim())
+      email.components.some(c => c.variants.some(v => v.text.trim()))
     );
 
     if (!hasContent) {
@@ -174,7 +210,7 @@ function CampaignBuilder({ knowledgeBase, onComplete, onBack }: CampaignBuilderP
           <div className="cb-header-content">
             <h2>Campaign Builder</h2>
             <p className="cb-subtitle">
-              Create your 3-email sequence with A/B variants. Use merge fields like {'{{firstName}}'}, {'{{company}}'}, and {'{{hook}}'} for personalisation.
+              Build your sequence - add, reorder and relabel steps - with split-test variants. Use merge fields like {'{{firstName}}'}, {'{{company}}'}, and {'{{hook}}'} for personalisation.
             </p>
           </div>
           <div className="cb-header-actions">
@@ -236,12 +272,13 @@ function CampaignBuilder({ knowledgeBase, onComplete, onBack }: CampaignBuilderP
         <div className="cb-merge-fields">
           <span className="cb-merge-label">Available merge fields:</span>
           <div className="cb-merge-tags">
-            <code>{'{{firstName}}'}</code>
-            <code>{'{{lastName}}'}</code>
-            <code>{'{{company}}'}</code>
-            <code>{'{{domain}}'}</code>
-            <code>{'{{hook}}'}</code>
+            {[...BUILT_IN_MERGE_FIELDS, ...customFields].map(field => (
+              <code key={field}>{`{{${field}}}`}</code>
+            ))}
           </div>
+          <span className="cb-merge-hint">
+            Defaults and filters: {'{{firstName|there}}'}, {'{{company|upper}}'}, {'{{offering|truncate:40}}'}
+          </span>
         </div>
 
         {/* Email Editor */}
@@ -249,8 +286,10 @@ function CampaignBuilder({ knowledgeBase, onComplete, onBack }: CampaignBuilderP
           sequence={sequence}
           onChange={setSequence}
           onGenerateComponent={knowledgeBase ? handleGenerateComponent : undefined}
+          onGenerateVariants={knowledgeBase ? handleGenerateVariants : undefined}
           onGenerateAll={knowledgeBase ? handleGenerateAll : undefined}
           isGenerating={isGenerating}
+          leads={leads}
         />
 
         {/* Error */}
@@ -263,7 +302,7 @@ function CampaignBuilder({ knowledgeBase, onComplete, onBack }: CampaignBuilderP
           <div className="cb-footer-info">
             <span className="cb-info-label">Spintax format:</span>
             <span className="cb-info-value">
-              Variants will be exported as {'{Variant A|Variant B}'} for Instantly.ai
+              Variants will be exported as {'{A|B|C}'} for Instantly.ai, repeated to match their weights
             </span>
           </div>
           <button
@@ -458,6 +497,13 @@ function CampaignBuilder({ knowledgeBase, onComplete, onBack }: CampaignBuilderP
           color: var(--color-text-muted);
         }
 
+        .cb-merge-hint {
+          flex-basis: 100%;
+          font-family: var(--font-mono);
+          font-size: 0.7rem;
+          color: var(--color-text-muted);
+        }
+
         .cb-merge-tags {
           display: flex;
           flex-wrap: wrap;
@@ -1,10 +1,12 @@
 import { useState } from 'react';
-import type { EmailComponent, EmailComponentType } from '../../agent/types';
+import type { ComponentVariant, EmailComponent, EmailComponentType } from '../../agent/types';
+import { MAX_COMPONENT_VARIANTS, variantLabel, variantWeight } from '../../agent/sequence';
 
 interface ComponentEditorProps {
   component: EmailComponent;
   onChange: (component: EmailComponent) => void;
-  onGenerate?: (type: EmailComponentType, variant: 'A' | 'B') => Promise<string>;
+  onGenerate?: (type: EmailComponentType, variant: number, angle?: string) => Promise<string>;
+  onGenerateVariants?: (type: EmailComponentType, count: number) => Promise<ComponentVariant[]>;
   isGenerating?: boolean;
 }
 
@@ -51,27 +53,54 @@ const COMPONENT_LABELS: Record<EmailComponentType, { label: string; description:
   },
 };
 
-function ComponentEditor({ component, onChange, onGenerate, isGenerating }: ComponentEditorProps) {
-  const [expandedVariant, setExpandedVariant] = useState<'A' | 'B' | 'both'>('both');
+// The style a variant is written in when it has no angle of its own
+const DEFAULT_STYLES = ['Direct & Professional', 'Conversational & Curious'];
+
+function ComponentEditor({ component, onChange, onGenerate, onGenerateVariants, isGenerating }: ComponentEditorProps) {
+  const [expandedVariant, setExpandedVariant] = useState<number | 'all'>('all');
   const config = COMPONENT_LABELS[component.type];
+  const variants = component.variants;
+  const totalWeight = variants.reduce((sum, variant) => sum + variantWeight(variant), 0);
 
-  const handleChange = (variant: 'A' | 'B', value: string) => {
+  const handleChange = (index: number, changes: Partial<ComponentVariant>) => {
     onChange({
       ...component,
-      [variant === 'A' ? 'variantA' : 'variantB']: value,
+      variants: variants.map((variant, i) => (i === index ? { ...variant, ...changes } : variant)),
     });
   };
 
-  const handleGenerate = async (variant: 'A' | 'B') => {
+  const handleAddVariant = () => {
+    onChange({ ...component, variants: [...variants, { text: '' }] });
+    setExpandedVariant('all');
+  };
+
+  const handleRemoveVariant = (index: number) => {
+    onChange({ ...component, variants: variants.filter((_, i) => i !== index) });
+    setExpandedVariant('all');
+  };
+
+  const handleGenerate = async (index: number) => {
     if (onGenerate) {
-      const generated = await onGenerate(component.type, variant);
-      handleChange(variant, generated);
+      const generated = await onGenerate(component.type, index, variants[index].angle);
+      if (generated) handleChange(index, { text: generated });
+    }
+  };
+
+  // Rewrites every variant in one request so they come back on different angles; weights are kept
+  const handleGenerateVariants = async () => {
+    if (onGenerateVariants) {
+      const generated = await onGenerateVariants(component.type, variants.length);
+      if (generated.length === 0) return;
+      onChange({
+        ...component,
+        variants: variants.map((variant, i) => (generated[i] ? { ...variant, ...generated[i] } : variant)),
+      });
     }
   };
 
-  const charCountA = component.variantA.length;
-  const charCountB = component.variantB.length;
   const isSubjectOrPreview = component.type === 'subject' || component.type === 'preview';
+  const charLimit = component.type === 'subject' ? 50 : 100;
+  const shown = variants.flatMap((variant, index) => (expandedVariant === 'all' || expandedVariant === index ? [{ variant, index }] : []));
 
   return (
     <div className="component-editor">
@@ -80,80 +109,89 @@ function ComponentEditor({ component, onChange, onGenerate, isGenerating }: Comp
           <span className="ce-type">{config.label}</span>
           <span className="ce-description">{config.description}</span>
         </div>
-        <div className="ce-toggle">
-          <button
-            className={expandedVariant === 'A' ? 'active' : ''}
-            onClick={() => setExpandedVariant(expandedVariant === 'A' ? 'both' : 'A')}
-          >
-            A
-          </button>
-          <button
-            className={expandedVariant === 'B' ? 'active' : ''}
-            onClick={() => setExpandedVariant(expandedVariant === 'B' ? 'both' : 'B')}
-          >
-            B
-          </button>
-        </div>
-      </div>
-
-      <div className={`ce-variants ${expandedVariant !== 'both' ? 'single' : ''}`}>
-        {(expandedVariant === 'A' || expandedVariant === 'both') && (
-          <div className="ce-variant variant-a">
-            <div className="ce-variant-header">
-              <span className="ce-variant-label">Variant A</span>
-              <span className="ce-variant-style">Direct &amp; Professional</span>
-              {isSubjectOrPreview && (
-                <span className={`ce-char-count ${charCountA > (component.type === 'subject' ? 50 : 100) ? 'over' : ''}`}>
-                  {charCountA}/{component.type === 'subject' ? 50 : 100}
-                </span>
-              )}
-            </div>
-            <textarea
-              value={component.variantA}
-              onChange={(e) => handleChange('A', e.target.value)}
-              placeholder={config.placeholder}
-              rows={component.type === 'subject' || component.type === 'preview' ? 2 : 4}
-            />
-            {onGenerate && (
+        <div className="ce-header-actions">
+          {onGenerateVariants && (
+            <button
+              className="ce-generate-all-btn"
+              onClick={handleGenerateVariants}
+              disabled={isGenerating}
+              title="Write every variant in one go, each on a different angle"
+            >
+              Generate {variants.length}
+            </button>
+          )}
+          <div className="ce-toggle">
+            {variants.map((_, index) => (
               <button
-                className="ce-generate-btn"
-                onClick={() => handleGenerate('A')}
-                disabled={isGenerating}
+                key={index}
+                className={expandedVariant === index ? 'active' : ''}
+                onClick={() => setExpandedVariant(expandedVariant === index ? 'all' : index)}
               >
-                {isGenerating ? 'Generating...' : 'Generate A'}
+                {variantLabel(index)}
               </button>
+            ))}
+            {variants.length < MAX_COMPONENT_VARIANTS && (
+              <button onClick={handleAddVariant} title="Add a variant">+</button>
             )}
           </div>
-        )}
+        </div>
+      </div>
 
-        {(expandedVariant === 'B' || expandedVariant === 'both') && (
-          <div className="ce-variant variant-b">
+      <div className={`ce-variants ${shown.length === 1 ? 'single' : ''}`}>
+        {shown.map(({ variant, index }) => (
+          <div key={index} className={`ce-variant variant-${variantLabel(index).toLowerCase()}`}>
             <div className="ce-variant-header">
-              <span className="ce-variant-label">Variant B</span>
-              <span className="ce-variant-style">Conversational &amp; Curious</span>
+              <span className="ce-variant-label">Variant {variantLabel(index)}</span>
+              <input
+                className="ce-variant-angle"
+                value={variant.angle || ''}
+                onChange={(e) => handleChange(index, { angle: e.target.value || undefined })}
+                placeholder={DEFAULT_STYLES[index % 2]}
+                title="The angle this variant takes - also steers generation"
+              />
               {isSubjectOrPreview && (
-                <span className={`ce-char-count ${charCountB > (component.type === 'subject' ? 50 : 100) ? 'over' : ''}`}>
-                  {charCountB}/{component.type === 'subject' ? 50 : 100}
+                <span className={`ce-char-count ${variant.text.length > charLimit ? 'over' : ''}`}>
+                  {variant.text.length}/{charLimit}
                 </span>
               )}
             </div>
             <textarea
-              value={component.variantB}
-              onChange={(e) => handleChange('B', e.target.value)}
+              value={variant.text}
+              onChange={(e) => handleChange(index, { text: e.target.value })}
               placeholder={config.placeholder}
-              rows={component.type === 'subject' || component.type === 'preview' ? 2 : 4}
+              rows={isSubjectOrPreview ? 2 : 4}
             />
+            <div className="ce-variant-footer">
+              {variants.length > 1 && (
+                <label className="ce-variant-weight" title="Relative share of sends">
+                  Weight
+                  <input
+                    type="number"
+                    min={1}
+                    max={10}
+                    value={variantWeight(variant)}
+                    onChange={(e) => handleChange(index, { weight: Number(e.target.value) || undefined })}
+                  />
+                  <span>{Math.round((variantWeight(variant) / totalWeight) * 100)}%</span>
+                </label>
+              )}
+              {variants.length > 1 && (
+                <button className="ce-remove-btn" onClick={() => handleRemoveVariant(index)}>
+                  Remove
+                </button>
+              )}
+            </div>
             {onGenerate && (
               <button
                 className="ce-generate-btn"
-                onClick={() => handleGenerate('B')}
+                onClick={() => handleGenerate(index)}
                 disabled={isGenerating}
               >
-                {isGenerating ? 'Generating...' : 'Generate B'}
+                {isGenerating ? 'Generating...' : `Generate ${variantLabel(index)}`}
               </button>
             )}
           </div>
-        )}
+        ))}
       </div>
 
       <style>{`
@@ -192,6 +230,35 @@ function ComponentEditor({ component, onChange, onGenerate, isGenerating }: Comp
           color: var(--color-text-muted);
         }
 
+        .ce-header-actions {
+          display: flex;
+          align-items: center;
+          gap: var(--space-sm);
+        }
+
+        .ce-generate-all-btn {
+          padding: var(--space-xs) var(--space-sm);
+          background: transparent;
+          border: 1px dashed var(--color-border);
+          border-radius: var(--radius-sm);
+          color: var(--color-text-muted);
+          font-family: var(--font-mono);
+          font-size: 0.7rem;
+          cursor: pointer;
+          transition: all 0.2s ease;
+        }
+
+        .ce-generate-all-btn:hover:not(:disabled) {
+          border-color: var(--color-accent);
+          color: var(--color-accent);
+          border-style: solid;
+        }
+
+        .ce-generate-all-btn:disabled {
+          opacity: 0.5;
+          cursor: not-allowed;
+        }
+
         .ce-toggle {
           display: flex;
           gap: 2px;
@@ -223,7 +290,7 @@ function ComponentEditor({ component, onChange, onGenerate, isGenerating }: Comp
 
         .ce-variants {
           display: grid;
-          grid-template-columns: 1fr 1fr;
+          grid-template-columns: repeat(auto-fit, minmax(280px, 1fr));
           gap: 1px;
           background: var(--color-border);
         }
@@ -260,13 +327,67 @@ function ComponentEditor({ component, onChange, onGenerate, isGenerating }: Comp
           color: #a78bfa;
         }
 
-        .ce-variant-style {
+        .ce-variant-angle {
+          flex: 1;
+          min-width: 0;
+          padding: 2px var(--space-xs);
+          background: transparent;
+          border: 1px solid transparent;
+          border-radius: var(--radius-sm);
           font-family: var(--font-mono);
           font-size: 0.65rem;
-          color: var(--color-text-muted);
+          color: var(--color-text-secondary);
           font-style: italic;
         }
 
+        .ce-variant-angle:hover,
+        .ce-variant-angle:focus {
+          outline: none;
+          border-color: var(--color-border);
+        }
+
+        .ce-variant-footer {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          margin-top: var(--space-xs);
+        }
+
+        .ce-variant-weight {
+          display: flex;
+          align-items: center;
+          gap: var(--space-xs);
+          font-family: var(--font-mono);
+          font-size: 0.65rem;
+          color: var(--color-text-muted);
+        }
+
+        .ce-variant-weight input {
+          width: 3rem;
+          padding: 2px var(--space-xs);
+          background: var(--color-bg-elevated);
+          border: 1px solid var(--color-border);
+          border-radius: var(--radius-sm);
+          color: var(--color-text-primary);
+          font-family: var(--font-mono);
+          font-size: 0.7rem;
+        }
+
+        .ce-remove-btn {
+          margin-left: auto;
+          padding: 2px var(--space-sm);
+          background: transparent;
+          border: none;
+          font-family: var(--font-mono);
+          font-size: 0.65rem;
+          color: var(--color-text-muted);
+          cursor: pointer;
+        }
+
+        .ce-remove-btn:hover {
+          color: var(--color-error);
+        }
+
         .ce-char-count {
           margin-left: auto;
           font-family: var(--font-mono);
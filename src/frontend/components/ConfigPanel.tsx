@@ -1,5 +1,11 @@
+import { useState } from 'react';
 import { motion } from 'framer-motion';
-import type { EnrichmentConfig } from '../../agent/types';
+import type { EnrichmentConfig, ScrapeProviderName } from '../../agent/types';
+
+const SCRAPE_PROVIDERS: { value: ScrapeProviderName; label: string }[] = [
+  { value: 'firecrawl', label: 'Firecrawl' },
+  { value: 'native', label: 'Built-in' },
+];
 
 interface ConfigPanelProps {
   config: EnrichmentConfig;
@@ -10,6 +16,7 @@ interface ConfigPanelProps {
   onFindEmails?: () => void;
   onGenerateIcebreakers?: () => void;
   onSkip?: () => void;
+  knowledgeBaseName?: string;  // Selected framework, offered as context for icebreakers
 }
 
 function ConfigPanel({
@@ -21,7 +28,17 @@ function ConfigPanel({
   onFindEmails,
   onGenerateIcebreakers,
   onSkip,
+  knowledgeBaseName,
 }: ConfigPanelProps) {
+  // Edited as free text, committed as a list on blur so typing a comma doesn't get eaten
+  const [targetRolesText, setTargetRolesText] = useState((config.targetRoles || []).join(', '));
+
+  const commitTargetRoles = () => {
+    const targetRoles = targetRolesText.split(',').map(role => role.trim()).filter(Boolean);
+    setTargetRolesText(targetRoles.join(', '));
+    onChange({ ...config, targetRoles });
+  };
+
   if (mode === 'initial') {
     return (
       <motion.div
@@ -35,10 +52,106 @@ function ConfigPanel({
           <span className="leads-badge">{leadsCount} leads</span>
         </div>
 
+        <div className="config-section">
+          <label className="config-label">
+            <span className="label-text">Scraper</span>
+            <span className="label-hint">
+              {config.scrapeProvider === 'native'
+                ? 'Plain fetch, no key needed - no JavaScript rendering'
+                : 'Renders JavaScript - needs a Firecrawl key'}
+            </span>
+          </label>
+          <div className="tone-options">
+            {SCRAPE_PROVIDERS.map(({ value, label }) => (
+              <button
+                key={value}
+                className={`tone-btn ${config.scrapeProvider === value ? 'active' : ''}`}
+                onClick={() => onChange({ ...config, scrapeProvider: value })}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="config-section">
+          <label className="config-label">
+            <span className="label-text">Company Profile</span>
+            <span className="label-hint">
+              {config.extractCompanyProfile
+                ? 'Industry, offering, location & key people - costs one Claude call per lead, even when the email is on the page'
+                : 'Phones & social links only - Claude is skipped when the email is on the page'}
+            </span>
+          </label>
+          <div className="tone-options">
+            {([true, false] as const).map((value) => (
+              <button
+                key={String(value)}
+                className={`tone-btn ${config.extractCompanyProfile === value ? 'active' : ''}`}
+                onClick={() => onChange({ ...config, extractCompanyProfile: value })}
+              >
+                {value ? 'On' : 'Off'}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="config-section stacked">
+          <label className="config-label" htmlFor="target-roles">
+            <span className="label-text">Target Roles</span>
+            <span className="label-hint">Decision-makers to find on team pages, most wanted first</span>
+          </label>
+          <input
+            id="target-roles"
+            className="roles-input"
+            type="text"
+            value={targetRolesText}
+            placeholder="Founder, CEO, Head of Marketing"
+            onChange={(e) => setTargetRolesText(e.target.value)}
+            onBlur={commitTargetRoles}
+          />
+        </div>
+
+        <div className="config-section">
+          <label className="config-label">
+            <span className="label-text">Pages per Site</span>
+            <span className="label-hint">Homepage plus contact, team &amp; about pages</span>
+          </label>
+          <div className="slider-container">
+            <input
+              type="range"
+              min="1"
+              max="10"
+              value={config.maxCrawlPages}
+              onChange={(e) => onChange({ ...config, maxCrawlPages: parseInt(e.target.value) })}
+              className="slider"
+            />
+            <span className="slider-value">{config.maxCrawlPages}</span>
+          </div>
+        </div>
+
+        <div className="config-section">
+          <label className="config-label">
+            <span className="label-text">Crawl Depth</span>
+            <span className="label-hint">Links followed from the homepage</span>
+          </label>
+          <div className="slider-container">
+            <input
+              type="range"
+              min="0"
+              max="3"
+              value={config.maxCrawlDepth}
+              onChange={(e) => onChange({ ...config, maxCrawlDepth: parseInt(e.target.value) })}
+              className="slider"
+            />
+            <span className="slider-value">{config.maxCrawlDepth}</span>
+          </div>
+        </div>
+
         <div className="config-section">
           <label className="config-label">
             <span className="label-text">Concurrency</span>
-            <span className="label-hint">Parallel requests</span>
+            <span className="label-hint">Leads in parallel</span>
           </label>
           <div className="slider-container">
             <input
@@ -53,8 +166,62 @@ function ConfigPanel({
           </div>
         </div>
 
+        <div className="config-section">
+          <label className="config-label">
+            <span className="label-text">Scrape Limit</span>
+            <span className="label-hint">Max scrapes in flight</span>
+          </label>
+          <div className="slider-container">
+            <input
+              type="range"
+              min="1"
+              max="10"
+              value={config.firecrawlConcurrency}
+              onChange={(e) => onChange({ ...config, firecrawlConcurrency: parseInt(e.target.value) })}
+              className="slider"
+            />
+            <span className="slider-value">{config.firecrawlConcurrency}</span>
+          </div>
+        </div>
+
+        <div className="config-section">
+          <label className="config-label">
+            <span className="label-text">Claude Limit</span>
+            <span className="label-hint">Max AI calls in flight</span>
+          </label>
+          <div className="slider-container">
+            <input
+              type="range"
+              min="1"
+              max="10"
+              value={config.anthropicConcurrency}
+              onChange={(e) => onChange({ ...config, anthropicConcurrency: parseInt(e.target.value) })}
+              className="slider"
+            />
+            <span className="slider-value">{config.anthropicConcurrency}</span>
+          </div>
+        </div>
+
+        <div className="config-section">
+          <label className="config-label">
+            <span className="label-text">Retries</span>
+            <span className="label-hint">Per request, on timeouts &amp; rate limits</span>
+          </label>
+          <div className="slider-container">
+            <input
+              type="range"
+              min="0"
+              max="5"
+              value={config.retryAttempts}
+              onChange={(e) => onChange({ ...config, retryAttempts: parseInt(e.target.value) })}
+              className="slider"
+            />
+            <span className="slider-value">{config.retryAttempts}</span>
+          </div>
+        </div>
+
         <div className="config-info">
-          <p>This step will crawl each website and extract email addresses.</p>
+          <p>This step will crawl each website's key pages and extract email addresses.</p>
           <p>After finding emails, you can choose which leads to enrich with personalized icebreakers.</p>
         </div>
 
@@ -105,6 +272,48 @@ function ConfigPanel({
         </div>
       </div>
 
+      <div className="config-section">
+        <label className="config-label">
+          <span className="label-text">Quality Retries</span>
+          <span className="label-hint">Rewrites when an icebreaker is generic or not about their site</span>
+        </label>
+        <div className="slider-container">
+          <input
+            type="range"
+            min="0"
+            max="4"
+            value={config.icebreakerMaxRegenerations}
+            onChange={(e) => onChange({ ...config, icebreakerMaxRegenerations: parseInt(e.target.value) })}
+            className="slider"
+          />
+          <span className="slider-value">{config.icebreakerMaxRegenerations}</span>
+        </div>
+      </div>
+
+      {knowledgeBaseName && (
+        <div className="config-section">
+          <label className="config-label">
+            <span className="label-text">Connect to Offer</span>
+            <span className="label-hint">
+              {config.icebreakerUseKnowledgeBase
+                ? `Open on the site fact that best leads into "${knowledgeBaseName}"`
+                : 'Icebreakers use the prospect\'s website only'}
+            </span>
+          </label>
+          <div className="tone-options">
+            {([true, false] as const).map((value) => (
+              <button
+                key={String(value)}
+                className={`tone-btn ${config.icebreakerUseKnowledgeBase === value ? 'active' : ''}`}
+                onClick={() => onChange({ ...config, icebreakerUseKnowledgeBase: value })}
+              >
+                {value ? 'On' : 'Off'}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="config-info">
         <p>Generate personalized icebreakers for {selectedCount} selected leads.</p>
         <p>Or skip this step to export just the emails.</p>
@@ -183,6 +392,28 @@ const configStyles = `
     border-bottom: 1px solid var(--color-border);
   }
 
+  .config-section.stacked {
+    flex-direction: column;
+    align-items: stretch;
+    gap: var(--space-sm);
+  }
+
+  .roles-input {
+    font-family: var(--font-mono);
+    font-size: 0.75rem;
+    padding: var(--space-xs) var(--space-sm);
+    background: var(--color-bg-elevated);
+    border: 1px solid var(--color-border);
+    border-radius: var(--radius-sm);
+    color: var(--color-text-primary);
+    transition: border-color 0.2s ease;
+  }
+
+  .roles-input:focus {
+    outline: none;
+    border-color: var(--color-accent);
+  }
+
   .config-label {
     display: flex;
     flex-direction: column;
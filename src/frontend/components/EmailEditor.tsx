@@ -1,19 +1,35 @@
 import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import type { SequenceEmail, EmailComponent, EmailComponentType, EmailPosition } from '../../agent/types';
+import type { SequenceEmail, EmailComponent, EmailComponentType, EmailPosition, CampaignLead, SequenceStepRole, ComponentVariant } from '../../agent/types';
+import {
+  MAX_SEQUENCE_STEPS,
+  SEQUENCE_STEP_ROLES,
+  addSequenceStep,
+  emailVariantCount,
+  moveSequenceStep,
+  newStepPosition,
+  removeSequenceStep,
+  stepRole,
+} from '../../agent/sequence';
+import { renderEmail } from '../../utils/emailRenderer';
 import ComponentEditor from './ComponentEditor';
 
 interface EmailEditorProps {
   sequence: SequenceEmail[];
   onChange: (sequence: SequenceEmail[]) => void;
-  onGenerateComponent?: (position: EmailPosition, type: EmailComponentType, variant: 'A' | 'B') => Promise<string>;
+  onGenerateComponent?: (position: EmailPosition, type: EmailComponentType, variant: number, angle?: string) => Promise<string>;
+  onGenerateVariants?: (position: EmailPosition, type: EmailComponentType, count: number) => Promise<ComponentVariant[]>;
   onGenerateAll?: () => void;
   isGenerating?: boolean;
+  leads?: CampaignLead[];  // Uploaded leads the preview can render against
 }
 
-function EmailEditor({ sequence, onChange, onGenerateComponent, onGenerateAll, isGenerating }: EmailEditorProps) {
+function EmailEditor({ sequence, onChange, onGenerateComponent, onGenerateVariants, onGenerateAll, isGenerating, leads = [] }: EmailEditorProps) {
   const [activeTab, setActiveTab] = useState<EmailPosition>(1);
   const [showPreview, setShowPreview] = useState(false);
+  const [previewLeadIndex, setPreviewLeadIndex] = useState(-1);  // -1 = the raw template
+  const [previewHtml, setPreviewHtml] = useState(false);
+  const previewLead = leads[previewLeadIndex];
 
   const activeEmail = sequence.find(e => e.position === activeTab);
 
@@ -32,37 +48,47 @@ function EmailEditor({ sequence, onChange, onGenerateComponent, onGenerateAll, i
     onChange(newSequence);
   };
 
-  const handleDelayChange = (position: EmailPosition, delayDays: number) => {
+  const handleStepChange = (position: EmailPosition, changes: Partial<Pick<SequenceEmail, 'label' | 'role' | 'delayDays'>>) => {
     const newSequence = sequence.map(email => {
       if (email.position === position) {
-        return { ...email, delayDays };
+        return { ...email, ...changes };
       }
       return email;
     });
     onChange(newSequence);
   };
 
-  const handleGenerate = async (type: EmailComponentType, variant: 'A' | 'B') => {
+  const handleAddStep = () => {
+    setActiveTab(newStepPosition(sequence));
+    onChange(addSequenceStep(sequence));
+  };
+
+  const handleRemoveStep = (position: EmailPosition) => {
+    setActiveTab(Math.min(position, sequence.length - 1));
+    onChange(removeSequenceStep(sequence, position));
+  };
+
+  // The moved step stays selected
+  const handleMoveStep = (position: EmailPosition, direction: -1 | 1) => {
+    setActiveTab(Math.min(Math.max(position + direction, 1), sequence.length));
+    onChange(moveSequenceStep(sequence, position, direction));
+  };
+
+  const delayOptions = (current: number) =>
+    [...new Set([1, 2, 3, 4, 5, 6, 7, 10, 14, 21, current])].filter(d => d > 0).sort((a, b) => a - b);
+
+  const handleGenerate = async (type: EmailComponentType, variant: number, angle?: string) => {
     if (onGenerateComponent) {
-      return await onGenerateComponent(activeTab, type, variant);
+      return await onGenerateComponent(activeTab, type, variant, angle);
     }
     return '';
   };
 
-  // Assemble email body from components
-  const assembleBody = (email: SequenceEmail, variant: 'A' | 'B'): string => {
-    const parts: string[] = [];
-    const componentOrder: EmailComponentType[] = ['hook', 'problem', 'agitate', 'solution', 'cta', 'ps'];
-
-    for (const type of componentOrder) {
-      const component = email.components.find(c => c.type === type);
-      const value = variant === 'A' ? component?.variantA : component?.variantB;
-      if (value && value.trim()) {
-        parts.push(value.trim());
-      }
+  const handleGenerateVariants = async (type: EmailComponentType, count: number) => {
+    if (onGenerateVariants) {
+      return await onGenerateVariants(activeTab, type, count);
     }
-
-    return parts.join('\n\n');
+    return [];
   };
 
   return (
@@ -81,6 +107,11 @@ function EmailEditor({ sequence, onChange, onGenerateComponent, onGenerateAll, i
             )}
           </button>
         ))}
+        {sequence.length < MAX_SEQUENCE_STEPS && (
+          <button className="ee-tab ee-tab-add" onClick={handleAddStep} title="Add a step to the sequence">
+            + Step
+          </button>
+        )}
         <div className="ee-tabs-actions">
           <button
             className="ee-preview-toggle"
@@ -111,62 +142,126 @@ function EmailEditor({ sequence, onChange, onGenerateComponent, onGenerateAll, i
             exit={{ opacity: 0, y: -10 }}
             transition={{ duration: 0.2 }}
           >
-            {/* Delay settings for follow-ups */}
-            {activeEmail.position > 1 && !showPreview && (
-              <div className="ee-delay-setting">
-                <label>Send after</label>
+            {/* Step settings: name, role, timing and place in the sequence */}
+            {!showPreview && (
+              <div className="ee-step-settings">
+                <input
+                  className="ee-step-label"
+                  value={activeEmail.label}
+                  onChange={(e) => handleStepChange(activeEmail.position, { label: e.target.value })}
+                  placeholder={`Email ${activeEmail.position}`}
+                  aria-label="Step name"
+                />
                 <select
-                  value={activeEmail.delayDays}
-                  onChange={(e) => handleDelayChange(activeEmail.position, Number(e.target.value))}
+                  value={stepRole(activeEmail, sequence.length)}
+                  onChange={(e) => handleStepChange(activeEmail.position, { role: e.target.value as SequenceStepRole })}
+                  title={SEQUENCE_STEP_ROLES[stepRole(activeEmail, sequence.length)].brief}
+                  aria-label="Step role"
                 >
-                  {[1, 2, 3, 4, 5, 6, 7, 10, 14].map(d => (
-                    <option key={d} value={d}>{d} {d === 1 ? 'day' : 'days'}</option>
+                  {(Object.keys(SEQUENCE_STEP_ROLES) as SequenceStepRole[]).map(role => (
+                    <option key={role} value={role}>{SEQUENCE_STEP_ROLES[role].label}</option>
                   ))}
                 </select>
-                <span className="ee-delay-hint">after previous email</span>
+                {activeEmail.position > 1 && (
+                  <>
+                    <label>Send after</label>
+                    <select
+                      value={activeEmail.delayDays}
+                      onChange={(e) => handleStepChange(activeEmail.position, { delayDays: Number(e.target.value) })}
+                    >
+                      {delayOptions(activeEmail.delayDays).map(d => (
+                        <option key={d} value={d}>{d} {d === 1 ? 'day' : 'days'}</option>
+                      ))}
+                    </select>
+                    <span className="ee-delay-hint">after previous email</span>
+                  </>
+                )}
+                <div className="ee-step-actions">
+                  <button
+                    onClick={() => handleMoveStep(activeEmail.position, -1)}
+                    disabled={activeEmail.position === 1}
+                    title="Move earlier"
+                  >
+                    ←
+                  </button>
+                  <button
+                    onClick={() => handleMoveStep(activeEmail.position, 1)}
+                    disabled={activeEmail.position === sequence.length}
+                    title="Move later"
+                  >
+                    →
+                  </button>
+                  <button
+                    className="ee-step-remove"
+                    onClick={() => handleRemoveStep(activeEmail.position)}
+                    disabled={sequence.length <= 1}
+                    title="Remove this step"
+                  >
+                    Remove
+                  </button>
+                </div>
               </div>
             )}
 
             {showPreview ? (
               /* Preview mode */
               <div className="ee-preview">
+                <div className="ee-preview-controls">
+                  <label>
+                    Render for
+                    <select
+                      value={previewLeadIndex}
+                      onChange={(e) => setPreviewLeadIndex(Number(e.target.value))}
+                    >
+                      <option value={-1}>Template (merge fields as written)</option>
+                      {leads.slice(0, 200).map((lead, index) => (
+                        <option key={index} value={index}>
+                          {lead.company || lead.website}{lead.email ? ` - ${lead.email}` : ''}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <button
+                    className={`ee-preview-format ${previewHtml ? 'active' : ''}`}
+                    onClick={() => setPreviewHtml(!previewHtml)}
+                  >
+                    {previewHtml ? 'HTML' : 'Text'}
+                  </button>
+                </div>
                 <div className="ee-preview-variants">
-                  <div className="ee-preview-variant variant-a">
-                    <h4>Variant A</h4>
-                    <div className="ee-preview-email">
-                      <div className="ee-preview-meta">
-                        <div className="ee-preview-subject">
-                          <strong>Subject:</strong>{' '}
-                          {activeEmail.components.find(c => c.type === 'subject')?.variantA || '(No subject)'}
+                  {Array.from({ length: emailVariantCount(activeEmail) }, (_, variant) => {
+                    const rendered = renderEmail(activeEmail, variant, previewLead);
+                    return (
+                      <div key={variant} className={`ee-preview-variant variant-${rendered.label.toLowerCase()}`}>
+                        <h4>Variant {rendered.label}</h4>
+                        <div className="ee-preview-email">
+                          <div className="ee-preview-meta">
+                            <div className="ee-preview-subject">
+                              <strong>Subject:</strong>{' '}
+                              {rendered.subject || '(No subject)'}
+                            </div>
+                            <div className="ee-preview-preheader">
+                              <strong>Preview:</strong>{' '}
+                              {rendered.preview || '(No preview)'}
+                            </div>
+                          </div>
+                          {!rendered.text ? (
+                            <div className="ee-preview-body">(No body content)</div>
+                          ) : previewHtml ? (
+                            // Built by textToHtml from escaped text, so safe to inject
+                            <div className="ee-preview-body html" dangerouslySetInnerHTML={{ __html: rendered.html }} />
+                          ) : (
+                            <div className="ee-preview-body">{rendered.text}</div>
+                          )}
+                          {rendered.unresolved.length > 0 && (
+                            <div className="ee-preview-unresolved">
+                              Blank for this lead: {rendered.unresolved.map(field => `{{${field}}}`).join(', ')}
+                            </div>
+                          )}
                         </div>
-                        <div className="ee-preview-preheader">
-                          <strong>Preview:</strong>{' '}
-                          {activeEmail.components.find(c => c.type === 'preview')?.variantA || '(No preview)'}
-                        </div>
-                      </div>
-                      <div className="ee-preview-body">
-                        {assembleBody(activeEmail, 'A') || '(No body content)'}
                       </div>
-                    </div>
-                  </div>
-                  <div className="ee-preview-variant variant-b">
-                    <h4>Variant B</h4>
-                    <div className="ee-preview-email">
-                      <div className="ee-preview-meta">
-                        <div className="ee-preview-subject">
-                          <strong>Subject:</strong>{' '}
-                          {activeEmail.components.find(c => c.type === 'subject')?.variantB || '(No subject)'}
-                        </div>
-                        <div className="ee-preview-preheader">
-                          <strong>Preview:</strong>{' '}
-                          {activeEmail.components.find(c => c.type === 'preview')?.variantB || '(No preview)'}
-                        </div>
-                      </div>
-                      <div className="ee-preview-body">
-                        {assembleBody(activeEmail, 'B') || '(No body content)'}
-                      </div>
-                    </div>
-                  </div>
+                    );
+                  })}
                 </div>
               </div>
             ) : (
@@ -178,6 +273,7 @@ function EmailEditor({ sequence, onChange, onGenerateComponent, onGenerateAll, i
                     component={component}
                     onChange={(updated) => handleComponentChange(activeEmail.position, updated)}
                     onGenerate={onGenerateComponent ? handleGenerate : undefined}
+                    onGenerateVariants={onGenerateVariants ? handleGenerateVariants : undefined}
                     isGenerating={isGenerating}
                   />
                 ))}
@@ -290,9 +386,10 @@ function EmailEditor({ sequence, onChange, onGenerateComponent, onGenerateAll, i
           padding: var(--space-lg);
         }
 
-        .ee-delay-setting {
+        .ee-step-settings {
           display: flex;
           align-items: center;
+          flex-wrap: wrap;
           gap: var(--space-sm);
           padding: var(--space-md);
           background: var(--color-bg-elevated);
@@ -301,13 +398,14 @@ function EmailEditor({ sequence, onChange, onGenerateComponent, onGenerateAll, i
           margin-bottom: var(--space-lg);
         }
 
-        .ee-delay-setting label {
+        .ee-step-settings label {
           font-family: var(--font-mono);
           font-size: 0.875rem;
           color: var(--color-text-secondary);
         }
 
-        .ee-delay-setting select {
+        .ee-step-settings select,
+        .ee-step-label {
           padding: var(--space-xs) var(--space-sm);
           background: var(--color-bg-secondary);
           border: 1px solid var(--color-border);
@@ -317,6 +415,42 @@ function EmailEditor({ sequence, onChange, onGenerateComponent, onGenerateAll, i
           font-size: 0.875rem;
         }
 
+        .ee-step-label {
+          width: 180px;
+        }
+
+        .ee-step-actions {
+          display: flex;
+          gap: var(--space-xs);
+          margin-left: auto;
+        }
+
+        .ee-step-actions button {
+          padding: var(--space-xs) var(--space-sm);
+          background: transparent;
+          border: 1px solid var(--color-border);
+          border-radius: var(--radius-sm);
+          color: var(--color-text-secondary);
+          font-family: var(--font-mono);
+          font-size: 0.75rem;
+          cursor: pointer;
+        }
+
+        .ee-step-actions button:disabled {
+          opacity: 0.4;
+          cursor: not-allowed;
+        }
+
+        .ee-step-actions .ee-step-remove:not(:disabled):hover {
+          border-color: var(--color-error);
+          color: var(--color-error);
+        }
+
+        .ee-tab-add {
+          color: var(--color-text-muted);
+          border-style: dashed;
+        }
+
         .ee-delay-hint {
           font-family: var(--font-mono);
           font-size: 0.75rem;
@@ -332,7 +466,7 @@ function EmailEditor({ sequence, onChange, onGenerateComponent, onGenerateAll, i
         /* Preview styles */
         .ee-preview-variants {
           display: grid;
-          grid-template-columns: 1fr 1fr;
+          grid-template-columns: repeat(auto-fit, minmax(320px, 1fr));
           gap: var(--space-lg);
         }
 
@@ -378,6 +512,60 @@ function EmailEditor({ sequence, onChange, onGenerateComponent, onGenerateAll, i
           color: var(--color-text-muted);
         }
 
+        .ee-preview-controls {
+          display: flex;
+          align-items: center;
+          gap: var(--space-md);
+          margin-bottom: var(--space-md);
+          font-family: var(--font-mono);
+          font-size: 0.75rem;
+          color: var(--color-text-muted);
+        }
+
+        .ee-preview-controls select {
+          margin-left: var(--space-sm);
+          max-width: 360px;
+          padding: var(--space-xs) var(--space-sm);
+          background: var(--color-bg-elevated);
+          border: 1px solid var(--color-border);
+          border-radius: var(--radius-sm);
+          color: var(--color-text-primary);
+          font-family: var(--font-mono);
+          font-size: 0.75rem;
+        }
+
+        .ee-preview-format {
+          padding: var(--space-xs) var(--space-sm);
+          background: transparent;
+          border: 1px solid var(--color-border);
+          border-radius: var(--radius-sm);
+          color: var(--color-text-secondary);
+          font-family: var(--font-mono);
+          font-size: 0.75rem;
+          cursor: pointer;
+        }
+
+        .ee-preview-format.active {
+          border-color: var(--color-accent);
+          color: var(--color-accent);
+        }
+
+        .ee-preview-unresolved {
+          padding: var(--space-sm) var(--space-md);
+          border-top: 1px solid var(--color-border);
+          font-family: var(--font-mono);
+          font-size: 0.7rem;
+          color: var(--color-warning);
+        }
+
+        .ee-preview-body.html {
+          white-space: normal;
+        }
+
+        .ee-preview-body.html p {
+          margin-bottom: var(--space-md);
+        }
+
         .ee-preview-body {
           padding: var(--space-lg);
           font-family: var(--font-mono);
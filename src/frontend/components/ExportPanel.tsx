@@ -1,47 +1,115 @@
+import { useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
-import type { EnrichedLead } from '../../agent/types';
+import type { EnrichedLead, CampaignLead, Campaign, VariantManifest } from '../../agent/types';
+import { exportToInstantly, exportToJSON, exportVariantManifest, downloadFile, findUnresolvedFields, type VariantMode } from '../../utils/instantlyExport';
+import { assignVariantsByHash } from '../../utils/variantAssignment';
+import { getCampaignById, updateCampaign } from '../../utils/localStorage';
+import { renderLeadEmails } from '../../utils/emailRenderer';
+import { COMPANY_PROFILE_COLUMNS, companyProfileColumns } from '../../agent/companyProfile';
+import { expandLeadContacts } from '../../agent/contactDiscovery';
 
 interface ExportPanelProps {
-  leads: EnrichedLead[];
+  leads: CampaignLead[];
+  campaign?: Campaign | null;
   onReset: () => void;
 }
 
-function ExportPanel({ leads, onReset }: ExportPanelProps) {
+function ExportPanel({ leads: companyLeads, campaign, onReset }: ExportPanelProps) {
+  const [perContact, setPerContact] = useState(false);
+  const [variantMode, setVariantMode] = useState<VariantMode>('spintax');
+  const [lastManifest, setLastManifest] = useState<{ campaignId: string; manifest: VariantManifest } | null>(null);
+  const [manifestSaveError, setManifestSaveError] = useState<string | null>(null);
+  const hasContacts = companyLeads.some(lead => lead.contacts?.some(contact => contact.keep));
+
+  // One row per kept contact, each with the campaign re-rendered for that person
+  const leads = useMemo(() => {
+    if (!perContact) return companyLeads;
+    return companyLeads.flatMap(expandLeadContacts).map(row =>
+      campaign && row.contact ? { ...row, emails: renderLeadEmails(row, campaign) } : row
+    );
+  }, [companyLeads, campaign, perContact]);
+
+  // Only leads with an address can be sent to
+  const sendableLeads = leads.filter(l => l.email);
+
+  // Merge fields that would go out blank, counted per field across leads
+  const unresolved = useMemo(() => {
+    if (!campaign) return { leadCount: 0, fields: [] as Array<[string, number]>, examples: [] as string[] };
+    const reports = findUnresolvedFields(leads.filter(l => l.email), campaign);
+    const counts = new Map<string, number>();
+    reports.forEach(report => report.fields.forEach(field => counts.set(field, (counts.get(field) || 0) + 1)));
+    return {
+      leadCount: reports.length,
+      fields: [...counts.entries()].sort((a, b) => b[1] - a[1]),
+      examples: reports.slice(0, 3).map(report => `${report.lead.email} (${report.fields.join(', ')})`),
+    };
+  }, [leads, campaign]);
+
   const handleExportCSV = () => {
-    // Get all columns
+    // Lead columns, then the company profile flattened
     const columns = ['website', 'company', 'name', 'email', 'icebreaker', 'enrichmentStatus'];
-    const headers = columns.join(',');
+    const contactColumns = perContact ? ['title', 'linkedinUrl', 'confidence'] : [];
+    const rationaleColumns = ['icebreakerSiteFact', 'icebreakerBridge', 'icebreakerReview'];
+    const headers = [...columns, ...contactColumns, ...rationaleColumns, ...COMPANY_PROFILE_COLUMNS].join(',');
 
-    const rows = leads.map(lead =>
-      columns
-        .map(col => {
-          const value = lead[col as keyof EnrichedLead] || '';
-          // Escape commas and quotes
+    const rows = leads.map(lead => {
+      const profile = companyProfileColumns(lead.companyProfile);
+      const contact = lead.contact || {};
+      return [
+        ...columns.map(col => lead[col as keyof EnrichedLead] || ''),
+        ...contactColumns.map(col => contact[col as 'title' | 'linkedinUrl' | 'confidence'] || ''),
+        lead.icebreakerRationale?.siteFact || '',
+        lead.icebreakerRationale?.bridge || '',
+        (lead.icebreakerReview || []).join('; '),
+        ...COMPANY_PROFILE_COLUMNS.map(col => profile[col]),
+      ]
+        .map(value => {
+          // Escape commas, quotes and line breaks
           const escaped = String(value).replace(/"/g, '""');
-          return escaped.includes(',') || escaped.includes('"') ? `"${escaped}"` : escaped;
+          return /[",\n]/.test(escaped) ? `"${escaped}"` : escaped;
         })
-        .join(',')
-    );
+        .join(',');
+    });
 
     const csv = [headers, ...rows].join('\n');
-    downloadFile(csv, 'enriched-leads.csv', 'text/csv');
+    downloadFile({ filename: perContact ? 'enriched-contacts.csv' : 'enriched-leads.csv', content: csv, mimeType: 'text/csv' });
   };
 
   const handleExportJSON = () => {
     const json = JSON.stringify(leads, null, 2);
-    downloadFile(json, 'enriched-leads.json', 'application/json');
+    downloadFile({ filename: perContact ? 'enriched-contacts.json' : 'enriched-leads.json', content: json, mimeType: 'application/json' });
   };
 
-  const downloadFile = (content: string, filename: string, mimeType: string) => {
-    const blob = new Blob([content], { type: mimeType });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = filename;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  // Campaign exports - full sequence, variants as spintax or assigned per lead
+  // An assigned export also downloads its manifest and saves it on the campaign (same seed each time)
+  // Files go out first: a manifest too big for localStorage mustn't cost the export itself
+  const handleExportInstantly = (separateByEmail: boolean) => {
+    if (!campaign) return;
+    if (variantMode === 'spintax') {
+      exportToInstantly(sendableLeads, campaign, { separateByEmail, variantMode }).forEach(downloadFile);
+      return;
+    }
+
+    // This session's last export wins over the saved one, which may not have fit in storage
+    const previous = (lastManifest?.campaignId === campaign.id ? lastManifest.manifest : undefined)
+      || getCampaignById(campaign.id)?.variantManifest || campaign.variantManifest;
+    const manifest = assignVariantsByHash(sendableLeads, campaign, previous);
+    setLastManifest({ campaignId: campaign.id, manifest });
+    exportToInstantly(sendableLeads, campaign, { separateByEmail, variantMode, manifest }).forEach(downloadFile);
+    downloadFile(exportVariantManifest(manifest, campaign));
+
+    try {
+      updateCampaign(campaign.id, { variantManifest: manifest });
+      setManifestSaveError(null);
+    } catch (error) {
+      console.error('Error saving variant manifest:', error);
+      setManifestSaveError('The manifest couldn\'t be saved with the campaign (browser storage may be full) - keep the downloaded manifest file, it\'s the only record of who got which variant.');
+    }
+  };
+
+  const handleExportCampaignJSON = () => {
+    if (!campaign) return;
+    downloadFile(exportToJSON(sendableLeads, campaign));
   };
 
   const handleCopyForInstantly = () => {
@@ -72,9 +140,106 @@ function ExportPanel({ leads, onReset }: ExportPanelProps) {
         </div>
       </div>
 
+      {hasContacts && (
+        <div className="export-rows">
+          <span className="export-rows-label">Rows:</span>
+          <button
+            className={`row-mode-btn ${perContact ? '' : 'active'}`}
+            onClick={() => setPerContact(false)}
+          >
+            One per company ({companyLeads.length})
+          </button>
+          <button
+            className={`row-mode-btn ${perContact ? 'active' : ''}`}
+            onClick={() => setPerContact(true)}
+          >
+            One per contact ({companyLeads.flatMap(expandLeadContacts).length})
+          </button>
+        </div>
+      )}
+
+      {campaign && (
+        <div className="export-campaign">
+          <div className="export-campaign-header">
+            <span className="export-campaign-label">Campaign:</span>
+            <span className="export-campaign-name">{campaign.name}</span>
+            <span className="export-campaign-meta">
+              {campaign.sequence.length} emails · {sendableLeads.length} leads
+            </span>
+          </div>
+          {unresolved.leadCount > 0 && (
+            <div className="export-warning">
+              <p>
+                ⚠ {unresolved.leadCount} of {sendableLeads.length} leads have merge fields with no value, which will be sent blank:{' '}
+                {unresolved.fields.map(([field, count]) => `{{${field}}} (${count})`).join(', ')}
+              </p>
+              <p className="export-warning-hint">
+                Fill the column or add a default in the campaign, e.g. {`{{${unresolved.fields[0][0]}|...}}`}. First affected: {unresolved.examples.join('; ')}
+              </p>
+            </div>
+          )}
+          <div className="export-rows">
+            <span className="export-rows-label">Variants:</span>
+            <button
+              className={`row-mode-btn ${variantMode === 'spintax' ? 'active' : ''}`}
+              onClick={() => setVariantMode('spintax')}
+              title="Every variant in the copy as {A|B|C} - the sending tool picks"
+            >
+              Spintax
+            </button>
+            <button
+              className={`row-mode-btn ${variantMode === 'assigned' ? 'active' : ''}`}
+              onClick={() => setVariantMode('assigned')}
+              title="One variant per lead from a hash of their email, split by weight, with a variant_id column and a manifest saved with the campaign"
+            >
+              Assigned per lead
+            </button>
+          </div>
+          {manifestSaveError && (
+            <div className="export-warning">
+              <p>⚠ {manifestSaveError}</p>
+            </div>
+          )}
+          <div className="export-actions">
+            <motion.button
+              className="export-btn primary"
+              onClick={() => handleExportInstantly(false)}
+              disabled={sendableLeads.length === 0}
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+            >
+              <span className="btn-icon">🚀</span>
+              Export to Instantly
+            </motion.button>
+
+            <motion.button
+              className="export-btn secondary"
+              onClick={() => handleExportInstantly(true)}
+              disabled={sendableLeads.length === 0}
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+            >
+              <span className="btn-icon">🗂️</span>
+              One CSV per Email
+            </motion.button>
+
+            <motion.button
+              className="export-btn secondary"
+              onClick={handleExportCampaignJSON}
+              disabled={sendableLeads.length === 0}
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+            >
+              <span className="btn-icon">🧾</span>
+              Campaign JSON
+            </motion.button>
+          </div>
+        </div>
+      )}
+
       <div className="export-actions">
         <motion.button
-          className="export-btn primary"
+          className={`export-btn ${campaign ? 'secondary' : 'primary'}`}
           onClick={handleExportCSV}
           whileHover={{ scale: 1.02 }}
           whileTap={{ scale: 0.98 }}
@@ -152,6 +317,86 @@ function ExportPanel({ leads, onReset }: ExportPanelProps) {
           color: var(--color-text-secondary);
         }
 
+        .export-warning {
+          margin-bottom: var(--space-md);
+          padding: var(--space-sm) var(--space-md);
+          font-family: var(--font-mono);
+          font-size: 0.8rem;
+          color: var(--color-warning);
+          border: 1px solid var(--color-warning);
+          border-radius: var(--radius-sm);
+        }
+
+        .export-warning-hint {
+          margin-top: var(--space-xs);
+          color: var(--color-text-muted);
+        }
+
+        .export-rows {
+          display: flex;
+          align-items: center;
+          gap: var(--space-sm);
+          margin-bottom: var(--space-md);
+          font-family: var(--font-mono);
+          font-size: 0.8rem;
+        }
+
+        .export-rows-label {
+          color: var(--color-text-muted);
+        }
+
+        .row-mode-btn {
+          font-family: var(--font-mono);
+          font-size: 0.75rem;
+          padding: var(--space-xs) var(--space-sm);
+          background: var(--color-bg-elevated);
+          border: 1px solid var(--color-border);
+          border-radius: var(--radius-sm);
+          color: var(--color-text-secondary);
+          cursor: pointer;
+          transition: all 0.2s ease;
+        }
+
+        .row-mode-btn.active {
+          background: var(--color-accent-subtle);
+          border-color: var(--color-accent);
+          color: var(--color-accent);
+        }
+
+        .export-campaign {
+          padding-bottom: var(--space-md);
+          margin-bottom: var(--space-md);
+          border-bottom: 1px solid var(--color-border);
+        }
+
+        .export-campaign-header {
+          display: flex;
+          align-items: baseline;
+          gap: var(--space-sm);
+          margin-bottom: var(--space-sm);
+          font-family: var(--font-mono);
+          font-size: 0.8rem;
+        }
+
+        .export-campaign-label {
+          color: var(--color-text-muted);
+        }
+
+        .export-campaign-name {
+          color: var(--color-accent);
+          font-weight: 500;
+        }
+
+        .export-campaign-meta {
+          margin-left: auto;
+          color: var(--color-text-muted);
+        }
+
+        .export-btn:disabled {
+          opacity: 0.5;
+          cursor: not-allowed;
+        }
+
         .export-actions {
           display: flex;
           flex-wrap: wrap;
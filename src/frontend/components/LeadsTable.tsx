@@ -1,5 +1,6 @@
+import { Fragment, useState } from 'react';
 import { motion } from 'framer-motion';
-import type { EnrichedLead } from '../../agent/types';
+import type { EnrichedLead, DeliverabilityVerdict, LeadContact } from '../../agent/types';
 
 interface LeadsTableProps {
   leads: EnrichedLead[];
@@ -7,6 +8,24 @@ interface LeadsTableProps {
   selectable?: boolean;
   selectedLeads?: Set<number>;
   onToggleSelect?: (index: number) => void;
+  onToggleContact?: (leadIndex: number, contactIndex: number) => void;  // Keep/drop one of a lead's contacts
+}
+
+const DELIVERABILITY_LABELS: Record<DeliverabilityVerdict['status'], string> = {
+  deliverable: '✓ MX',
+  risky: '⚠ risky',
+  undeliverable: '✗ bounce',
+  unknown: '? unchecked',
+};
+
+// Full icebreaker on hover, with the site fact it used and how it ties to our offer
+function icebreakerTitle(lead: EnrichedLead): string {
+  const rationale = lead.icebreakerRationale;
+  return [
+    lead.icebreaker,
+    rationale?.siteFact && `From their site: ${rationale.siteFact}`,
+    rationale?.bridge && `Leads into: ${rationale.bridge}`,
+  ].filter(Boolean).join('\n\n');
 }
 
 function LeadsTable({
@@ -15,7 +34,19 @@ function LeadsTable({
   selectable = false,
   selectedLeads = new Set(),
   onToggleSelect,
+  onToggleContact,
 }: LeadsTableProps) {
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+
+  const toggleExpanded = (index: number) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
   return (
     <div className="table-container">
       <div className="table-header">
@@ -44,70 +75,115 @@ function LeadsTable({
             {leads.slice(0, 100).map((lead, index) => {
               const isSelected = selectedLeads.has(index);
               const hasEmail = !!lead.email;
+              const contacts = lead.contacts || [];
+              const isExpanded = expanded.has(index);
 
               return (
-                <motion.tr
-                  key={index}
-                  initial={{ opacity: 0, x: -10 }}
-                  animate={{ opacity: 1, x: 0 }}
-                  transition={{ delay: Math.min(index * 0.02, 0.5), duration: 0.2 }}
-                  className={`row-${lead.enrichmentStatus} ${isSelected ? 'row-selected' : ''} ${lead.domainValidation && !lead.domainValidation.isValid ? 'row-invalid-domain' : ''}`}
-                  onClick={selectable && hasEmail ? () => onToggleSelect?.(index) : undefined}
-                  style={selectable && hasEmail ? { cursor: 'pointer' } : undefined}
-                  title={lead.domainValidation && !lead.domainValidation.isValid ? `Invalid: ${lead.domainValidation.error}` : undefined}
-                >
-                  {selectable && (
-                    <td className="col-select">
-                      {hasEmail ? (
-                        <label className="checkbox-wrapper" onClick={(e) => e.stopPropagation()}>
-                          <input
-                            type="checkbox"
-                            checked={isSelected}
-                            onChange={() => onToggleSelect?.(index)}
-                            className="checkbox-input"
-                          />
-                          <span className={`checkbox-custom ${isSelected ? 'checked' : ''}`}>
-                            {isSelected && '✓'}
-                          </span>
-                        </label>
-                      ) : (
-                        <span className="no-email-indicator">—</span>
-                      )}
-                    </td>
-                  )}
-                  <td className="col-num">
-                    <span className="row-number">{index + 1}</span>
-                  </td>
-                  <td className="col-website">
-                    <span className="website-text">{lead.website}</span>
-                  </td>
-                  <td className="col-company">
-                    {lead.company || <span className="empty-cell">—</span>}
-                  </td>
-                  {showEnrichment && (
-                    <>
-                      <td className="col-email">
-                        {lead.email ? (
-                          <span className="email-found">{lead.email}</span>
+                <Fragment key={index}>
+                  <motion.tr
+                    initial={{ opacity: 0, x: -10 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    transition={{ delay: Math.min(index * 0.02, 0.5), duration: 0.2 }}
+                    className={`row-${lead.enrichmentStatus} ${isSelected ? 'row-selected' : ''} ${lead.domainValidation && !lead.domainValidation.isValid ? 'row-invalid-domain' : ''}`}
+                    onClick={selectable && hasEmail ? () => onToggleSelect?.(index) : undefined}
+                    style={selectable && hasEmail ? { cursor: 'pointer' } : undefined}
+                    title={lead.domainValidation && !lead.domainValidation.isValid ? `Invalid: ${lead.domainValidation.error}` : undefined}
+                  >
+                    {selectable && (
+                      <td className="col-select">
+                        {hasEmail ? (
+                          <label className="checkbox-wrapper" onClick={(e) => e.stopPropagation()}>
+                            <input
+                              type="checkbox"
+                              checked={isSelected}
+                              onChange={() => onToggleSelect?.(index)}
+                              className="checkbox-input"
+                            />
+                            <span className={`checkbox-custom ${isSelected ? 'checked' : ''}`}>
+                              {isSelected && '✓'}
+                            </span>
+                          </label>
                         ) : (
-                          <span className="email-not-found">Not found</span>
+                          <span className="no-email-indicator">—</span>
                         )}
                       </td>
-                      <td className="col-icebreaker">
-                        {lead.icebreaker ? (
-                          <span className="icebreaker-text" title={lead.icebreaker}>
-                            {lead.icebreaker.substring(0, 60)}...
-                          </span>
-                        ) : (
-                          <span className="empty-cell">—</span>
-                        )}
-                      </td>
-                    </>
-                  )}
-                  <td className="col-status-badge">
-                    <StatusBadge status={lead.enrichmentStatus} />
-                  </td>
-                </motion.tr>
+                    )}
+                    <td className="col-num">
+                      <span className="row-number">{index + 1}</span>
+                    </td>
+                    <td className="col-website">
+                      <span className="website-text">{lead.website}</span>
+                    </td>
+                    <td className="col-company">
+                      {lead.company || <span className="empty-cell">—</span>}
+                    </td>
+                    {showEnrichment && (
+                      <>
+                        <td className="col-email">
+                          {lead.email ? (
+                            <>
+                              <span className="email-found">{lead.email}</span>
+                              {lead.deliverability && (
+                                <span
+                                  className={`deliverability ${lead.deliverability.status}`}
+                                  title={lead.deliverability.reason || 'Domain has MX records'}
+                                >
+                                  {DELIVERABILITY_LABELS[lead.deliverability.status]}
+                                </span>
+                              )}
+                              {lead.emailSource === 'inferred' && (
+                                <span className="email-tag inferred" title="Guessed from a name on the site - not verified">inferred</span>
+                              )}
+                              {lead.emailDeobfuscated && (
+                                <span className="email-tag" title="Decoded from an obfuscated address on the site">decoded</span>
+                              )}
+                            </>
+                          ) : (
+                            <span className="email-not-found">Not found</span>
+                          )}
+                          {contacts.length > 1 && (
+                            <button
+                              className="contacts-toggle"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                toggleExpanded(index);
+                              }}
+                            >
+                              {isExpanded ? '▾' : '▸'} {contacts.filter(c => c.keep).length}/{contacts.length} contacts
+                            </button>
+                          )}
+                        </td>
+                        <td className="col-icebreaker">
+                          {lead.icebreaker ? (
+                            <>
+                              <span className="icebreaker-text" title={icebreakerTitle(lead)}>
+                                {lead.icebreaker.substring(0, 60)}...
+                              </span>
+                              {lead.icebreakerReview && (
+                                <span className="email-tag inferred" title={lead.icebreakerReview.join('\n')}>review</span>
+                              )}
+                            </>
+                          ) : (
+                            <span className="empty-cell">—</span>
+                          )}
+                        </td>
+                      </>
+                    )}
+                    <td className="col-status-badge">
+                      <StatusBadge status={lead.enrichmentStatus} title={lead.errorMessage} />
+                    </td>
+                  </motion.tr>
+                  {isExpanded && contacts.map((contact, contactIndex) => (
+                    <ContactRow
+                      key={`${index}-${contactIndex}`}
+                      contact={contact}
+                      isPrimary={!!contact.email && contact.email === lead.email}
+                      selectable={selectable}
+                      showEnrichment={showEnrichment}
+                      onToggle={onToggleContact && contact.email ? () => onToggleContact(index, contactIndex) : undefined}
+                    />
+                  ))}
+                </Fragment>
               );
             })}
           </tbody>
@@ -296,6 +372,97 @@ function LeadsTable({
           color: var(--color-success);
         }
 
+        .email-tag {
+          margin-left: var(--space-xs);
+          padding: 1px 6px;
+          font-size: 0.65rem;
+          color: var(--color-text-muted);
+          border: 1px solid var(--color-border);
+          border-radius: var(--radius-sm);
+        }
+
+        .deliverability {
+          margin-left: var(--space-xs);
+          font-size: 0.7rem;
+        }
+
+        .deliverability.deliverable {
+          color: var(--color-success);
+        }
+
+        .deliverability.risky {
+          color: var(--color-warning);
+        }
+
+        .deliverability.undeliverable {
+          color: var(--color-error);
+        }
+
+        .deliverability.unknown {
+          color: var(--color-text-muted);
+        }
+
+        .email-tag.inferred {
+          color: var(--color-warning);
+          border-color: var(--color-warning);
+        }
+
+        .contacts-toggle {
+          display: block;
+          margin-top: 2px;
+          padding: 0;
+          font-family: var(--font-mono);
+          font-size: 0.7rem;
+          color: var(--color-text-muted);
+          background: none;
+          border: none;
+          cursor: pointer;
+        }
+
+        .contacts-toggle:hover {
+          color: var(--color-accent);
+        }
+
+        .contact-row td {
+          font-size: 0.75rem;
+          background: var(--color-bg-elevated);
+        }
+
+        .contact-row.contact-dropped td {
+          opacity: 0.5;
+        }
+
+        .contact-name {
+          padding-left: var(--space-md);
+          color: var(--color-text-primary);
+        }
+
+        .contact-title {
+          color: var(--color-text-muted);
+        }
+
+        .email-tag.role {
+          color: var(--color-accent);
+          border-color: var(--color-accent);
+        }
+
+        .confidence {
+          font-size: 0.7rem;
+          text-transform: uppercase;
+        }
+
+        .confidence.high {
+          color: var(--color-success);
+        }
+
+        .confidence.medium {
+          color: var(--color-warning);
+        }
+
+        .confidence.low {
+          color: var(--color-text-muted);
+        }
+
         .email-not-found {
           color: var(--color-error);
           opacity: 0.7;
@@ -328,7 +495,78 @@ function LeadsTable({
   );
 }
 
-function StatusBadge({ status }: { status: EnrichedLead['enrichmentStatus'] }) {
+interface ContactRowProps {
+  contact: LeadContact;
+  isPrimary: boolean;
+  selectable: boolean;
+  showEnrichment: boolean;
+  onToggle?: () => void;
+}
+
+/**
+ * One candidate under an expanded company row, with a checkbox to keep or drop it
+ */
+function ContactRow({ contact, isPrimary, selectable, showEnrichment, onToggle }: ContactRowProps) {
+  const kept = !!contact.keep;
+
+  return (
+    <tr className={`contact-row ${kept ? '' : 'contact-dropped'}`}>
+      {selectable && <td className="col-select" />}
+      <td className="col-num">
+        {onToggle ? (
+          <label className="checkbox-wrapper" title={kept ? 'Drop this contact' : 'Keep this contact'}>
+            <input type="checkbox" checked={kept} onChange={onToggle} className="checkbox-input" />
+            <span className={`checkbox-custom ${kept ? 'checked' : ''}`}>{kept && '✓'}</span>
+          </label>
+        ) : (
+          kept && <span className="row-number">✓</span>
+        )}
+      </td>
+      <td className="col-website">
+        <span className="contact-name">{contact.name || 'Shared inbox'}</span>
+      </td>
+      <td className="col-company">
+        {contact.title ? <span className="contact-title">{contact.title}</span> : <span className="empty-cell">—</span>}
+        {contact.matchedRole && <span className="email-tag role" title="Matches a target role">{contact.matchedRole}</span>}
+      </td>
+      {showEnrichment && (
+        <>
+          <td className="col-email">
+            {contact.email ? (
+              <>
+                <span className="email-found">{contact.email}</span>
+                {contact.deliverability && (
+                  <span
+                    className={`deliverability ${contact.deliverability.status}`}
+                    title={contact.deliverability.reason || 'Domain has MX records'}
+                  >
+                    {DELIVERABILITY_LABELS[contact.deliverability.status]}
+                  </span>
+                )}
+                {contact.emailSource === 'inferred' && (
+                  <span className="email-tag inferred" title="Guessed from their name - not verified">inferred</span>
+                )}
+                {isPrimary && <span className="email-tag" title="The company row's address">primary</span>}
+              </>
+            ) : (
+              <span className="email-not-found">No address</span>
+            )}
+          </td>
+          <td className="col-icebreaker">
+            {contact.linkedinUrl && (
+              <a className="email-tag" href={contact.linkedinUrl} target="_blank" rel="noreferrer">LinkedIn</a>
+            )}
+          </td>
+        </>
+      )}
+      <td className="col-status-badge">
+        {contact.confidence && <span className={`confidence ${contact.confidence}`}>{contact.confidence}</span>}
+      </td>
+    </tr>
+  );
+}
+
+function StatusBadge({ status, title }: { status: EnrichedLead['enrichmentStatus']; title?: string }) {
   const config = {
     pending: { label: 'Pending', color: 'var(--color-pending)' },
     processing: { label: 'Processing', color: 'var(--color-accent)' },
@@ -342,6 +580,7 @@ function StatusBadge({ status }: { status: EnrichedLead['enrichmentStatus'] }) {
   return (
     <span
       className="status-badge"
+      title={title}
       style={{
         color,
         backgroundColor: `${color}15`,
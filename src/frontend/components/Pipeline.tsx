@@ -1,5 +1,5 @@
 import { motion } from 'framer-motion';
-import type { AppStage } from '../../App';
+import type { AppStage } from '../../types';
 
 interface PipelineProps {
   currentStage: AppStage;
@@ -0,0 +1,121 @@
+import { motion } from 'framer-motion';
+import type { LeadSession } from '../../utils/sessionStore';
+
+interface ResumeSessionProps {
+  session: LeadSession;
+  onResume: () => void;
+  onDiscard: () => void;
+}
+
+const STAGE_LABELS: Partial<Record<LeadSession['stage'], string>> = {
+  knowledge_base: 'choosing a framework',
+  campaign_builder: 'building a campaign',
+  configure: 'configuring',
+  finding_emails: 'finding emails',
+  review: 'reviewing emails',
+  enriching: 'generating icebreakers',
+  complete: 'ready to export',
+};
+
+function ResumeSession({ session, onResume, onDiscard }: ResumeSessionProps) {
+  const withEmail = session.leads.filter(l => l.email).length;
+  const pending = session.leads.filter(l => l.enrichmentStatus === 'pending').length;
+
+  return (
+    <motion.div
+      className="resume-session"
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <div className="resume-icon">↺</div>
+      <div className="resume-content">
+        <strong>Resume previous session?</strong>
+        <p>
+          {session.leads.length} leads · {withEmail} emails found
+          {pending > 0 && ` · ${pending} pending`}
+          {STAGE_LABELS[session.stage] && ` · ${STAGE_LABELS[session.stage]}`}
+          {' · saved '}{new Date(session.updatedAt).toLocaleString()}
+        </p>
+      </div>
+      <div className="resume-actions">
+        <button className="resume-btn primary" onClick={onResume}>Resume</button>
+        <button className="resume-btn" onClick={onDiscard}>Discard</button>
+      </div>
+
+      <style>{`
+        .resume-session {
+          display: flex;
+          align-items: center;
+          gap: var(--space-md);
+          padding: var(--space-md) var(--space-lg);
+          background: var(--color-accent-subtle);
+          border: 1px solid var(--color-accent);
+          border-radius: var(--radius-lg);
+          margin-bottom: var(--space-lg);
+        }
+
+        .resume-icon {
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          width: 24px;
+          height: 24px;
+          background: var(--color-accent);
+          color: var(--color-bg-primary);
+          border-radius: 50%;
+          font-weight: bold;
+          font-size: 0.875rem;
+        }
+
+        .resume-content {
+          flex: 1;
+        }
+
+        .resume-content strong {
+          display: block;
+          font-family: var(--font-display);
+          font-size: 0.9rem;
+          color: var(--color-text-primary);
+          margin-bottom: var(--space-xs);
+        }
+
+        .resume-content p {
+          font-family: var(--font-mono);
+          font-size: 0.8rem;
+          color: var(--color-text-secondary);
+          margin: 0;
+        }
+
+        .resume-actions {
+          display: flex;
+          gap: var(--space-sm);
+        }
+
+        .resume-btn {
+          font-family: var(--font-mono);
+          font-size: 0.8rem;
+          padding: var(--space-xs) var(--space-md);
+          background: var(--color-bg-elevated);
+          border: 1px solid var(--color-border);
+          border-radius: var(--radius-sm);
+          color: var(--color-text-secondary);
+          cursor: pointer;
+          transition: all 0.2s ease;
+        }
+
+        .resume-btn:hover {
+          border-color: var(--color-accent);
+          color: var(--color-accent);
+        }
+
+        .resume-btn.primary {
+          background: var(--color-accent);
+          border-color: var(--color-accent);
+          color: var(--color-bg-primary);
+        }
+      `}</style>
+    </motion.div>
+  );
+}
+
+export default ResumeSession;
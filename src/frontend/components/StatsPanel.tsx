@@ -8,6 +8,10 @@ interface StatsPanelProps {
   totalToProcess?: number;
   mode?: 'emails' | 'icebreakers' | 'complete';
   showValidation?: boolean;
+  isPaused?: boolean;
+  onPause?: () => void;
+  onResume?: () => void;
+  onCancel?: () => void;
 }
 
 function StatsPanel({
@@ -17,6 +21,10 @@ function StatsPanel({
   totalToProcess,
   mode = 'emails',
   showValidation = false,
+  isPaused = false,
+  onPause,
+  onResume,
+  onCancel,
 }: StatsPanelProps) {
   const stats = {
     total: leads.length,
@@ -37,6 +45,7 @@ function StatsPanel({
       if (mode === 'complete') return 'Enrichment Complete';
       return 'Email Discovery Complete';
     }
+    if (isPaused) return 'Paused';
     if (mode === 'icebreakers') return 'Generating Icebreakers';
     return 'Finding Emails';
   };
@@ -54,13 +63,35 @@ function StatsPanel({
         <div className="stats-title-section">
           <h2 className="stats-title">{getTitle()}</h2>
           {isProcessing && (
-            <span className="processing-indicator">
+            <span className={`processing-indicator ${isPaused ? 'paused' : ''}`}>
               <span className="pulse-dot" />
               {getSubtitle()}
             </span>
           )}
         </div>
         <div className="progress-section">
+          {isProcessing && (onPause || onCancel) && (
+            <div className="run-controls">
+              {isPaused ? (
+                onResume && (
+                  <button className="run-btn resume" onClick={onResume}>
+                    ▶ Resume
+                  </button>
+                )
+              ) : (
+                onPause && (
+                  <button className="run-btn" onClick={onPause}>
+                    ❚❚ Pause
+                  </button>
+                )
+              )}
+              {onCancel && (
+                <button className="run-btn cancel" onClick={onCancel}>
+                  ✕ Cancel
+                </button>
+              )}
+            </div>
+          )}
           <div className="progress-bar">
             <motion.div
               className="progress-fill"
@@ -200,6 +231,47 @@ function StatsPanel({
           animation: pulse 1.5s ease-in-out infinite;
         }
 
+        .processing-indicator.paused {
+          color: var(--color-warning);
+        }
+
+        .processing-indicator.paused .pulse-dot {
+          background: var(--color-warning);
+          animation: none;
+        }
+
+        .run-controls {
+          display: flex;
+          gap: var(--space-xs);
+        }
+
+        .run-btn {
+          font-family: var(--font-mono);
+          font-size: 0.75rem;
+          padding: var(--space-xs) var(--space-sm);
+          background: var(--color-bg-elevated);
+          border: 1px solid var(--color-border);
+          border-radius: var(--radius-sm);
+          color: var(--color-text-secondary);
+          cursor: pointer;
+          transition: all 0.2s ease;
+        }
+
+        .run-btn:hover {
+          border-color: var(--color-accent);
+          color: var(--color-accent);
+        }
+
+        .run-btn.resume {
+          border-color: var(--color-accent);
+          color: var(--color-accent);
+        }
+
+        .run-btn.cancel:hover {
+          border-color: var(--color-error);
+          color: var(--color-error);
+        }
+
         @keyframes pulse {
           0%, 100% { transform: scale(1); opacity: 1; }
           50% { transform: scale(1.3); opacity: 0.7; }
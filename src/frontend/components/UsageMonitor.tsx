@@ -76,6 +76,7 @@ function UsageMonitor() {
                       <span className="breakdown-op">
                         {op === 'email_search' && '🔍 Email Search'}
                         {op === 'icebreaker_generation' && '💬 Icebreakers'}
+                        {op === 'hook_generation' && '🪝 Hooks'}
                         {op === 'other' && '⚙️ Other'}
                       </span>
                       <span className="breakdown-stats">
@@ -0,0 +1,118 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { parseCompanyProfile } from '../../agent/companyProfile.js';
+import { json, type ApiHandler } from '../types.js';
+
+interface ExtractEmailsRequest {
+  content?: string;
+  domain?: string;
+  profile?: boolean;  // Also extract a company profile from the same content
+  anthropicKey?: string;
+}
+
+const PROFILE_INSTRUCTIONS = `
+4. Also build a profile of the company from the same content. Only include what the content actually says - use null or [] rather than guessing:
+   - industry: a short label (e.g. "commercial roofing", "B2B SaaS")
+   - offering: what they sell, in one sentence
+   - location: town/city and country of their main office
+   - sizeHint: anything indicating size (staff numbers, "family-run", number of offices)
+   - socialLinks: full URLs of the company's own social profiles
+   - phoneNumbers: as written on the site
+   - techSignals: platforms, tools or technology they mention using or selling
+   - keyPeople: named people with their job titles`;
+
+const PROFILE_FORMAT = `,
+  "profile": {
+    "industry": "...",
+    "offering": "...",
+    "location": "...",
+    "sizeHint": "...",
+    "socialLinks": [],
+    "phoneNumbers": [],
+    "techSignals": [],
+    "keyPeople": [{ "name": "...", "title": "..." }]
+  }`;
+
+export const extractEmails: ApiHandler<ExtractEmailsRequest> = async ({ content, domain, profile, anthropicKey }) => {
+  // Use env var if available, otherwise use provided key
+  const apiKey = process.env.ANTHROPIC_API_KEY || anthropicKey;
+
+  if (!content || !domain) {
+    return json({ error: 'Missing content or domain' }, 400);
+  }
+
+  if (!apiKey) {
+    return json({ error: 'Missing Anthropic API key' }, 400);
+  }
+
+  const prompt = `Analyze this website content and extract any email addresses you find.
+
+Website domain: ${domain}
+
+Website content:
+${content.substring(0, 8000)}
+
+Instructions:
+1. Find ALL email addresses mentioned in the content
+2. Identify the most relevant business contact email (not generic like noreply@, info@ if there's a better option)
+3. Rate your confidence: "high" if email clearly belongs to this company, "medium" if probably correct, "low" if uncertain${profile ? PROFILE_INSTRUCTIONS : ''}
+
+Respond in this exact JSON format:
+{
+  "emails": ["email1@example.com", "email2@example.com"],
+  "primaryEmail": "best@example.com",
+  "confidence": "high"${profile ? PROFILE_FORMAT : ''}
+}
+
+If no emails found, respond with:
+{
+  "emails": [],
+  "primaryEmail": null,
+  "confidence": "low"${profile ? PROFILE_FORMAT : ''}
+}`;
+
+  try {
+    const client = new Anthropic({ apiKey });
+    const response = await client.messages.create({
+      model: 'claude-sonnet-4-20250514',
+      max_tokens: profile ? 1200 : 500,
+      messages: [{ role: 'user', content: prompt }],
+    });
+
+    const textContent = response.content.find(c => c.type === 'text');
+    const text = textContent?.text || '';
+
+    // Parse the JSON response
+    const jsonMatch = text.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      return json({
+        success: false,
+        emails: [],
+        confidence: 'low',
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+        error: 'Failed to parse AI response',
+      });
+    }
+
+    const parsed = JSON.parse(jsonMatch[0]);
+
+    return json({
+      success: true,
+      emails: parsed.emails || [],
+      primaryEmail: parsed.primaryEmail || parsed.emails?.[0],
+      confidence: parsed.confidence || 'medium',
+      ...(profile ? { profile: parseCompanyProfile(parsed.profile) } : {}),
+      inputTokens: response.usage.input_tokens,
+      outputTokens: response.usage.output_tokens,
+    });
+  } catch (error) {
+    return json({
+      success: false,
+      emails: [],
+      confidence: 'low',
+      inputTokens: 0,
+      outputTokens: 0,
+      error: error instanceof Error ? error.message : 'Unknown AI error',
+    });
+  }
+};
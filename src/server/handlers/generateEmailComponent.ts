@@ -0,0 +1,332 @@
+import Anthropic from '@anthropic-ai/sdk';
+import type { SequenceStepRole } from '../../agent/types.js';
+import { SEQUENCE_STEP_ROLES } from '../../agent/sequence.js';
+import { json, type ApiHandler } from '../types.js';
+
+interface GenerateEmailComponentRequest {
+  knowledgeBase?: string;
+  componentType?: string;
+  emailPosition?: number;
+  sequence?: Array<{ label: string; role: SequenceStepRole; delayDays: number }>;  // Every step, in order
+  variant?: number;  // Index of the variant being written (0 = A); even indexes lean direct, odd conversational
+  angle?: string;  // Approach this variant should take, e.g. "pain-led"
+  existing?: string[];  // Variants already written for this component, to differ from
+  count?: number;  // Write this many distinct variants at once instead of one
+  audience?: string;  // Summary of the leads' company profiles
+  mergeFields?: string[];  // Extra CSV columns available as {{column}}
+  anthropicKey?: string;
+}
+
+/**
+ * Where this email sits and what it's for, with the rest of the sequence for context
+ * Without an outline, the first email is treated as the intro and any other as a follow-up
+ */
+function describeStep(position: number, sequence: GenerateEmailComponentRequest['sequence']): string {
+  const steps = sequence?.length ? sequence : undefined;
+  const step = steps?.[position - 1];
+  const role = step && SEQUENCE_STEP_ROLES[step.role] ? step.role : position === 1 ? 'intro' : 'follow-up';
+  const delay = position > 1 && step ? `, sent ${step.delayDays} day${step.delayDays === 1 ? '' : 's'} after the previous email` : '';
+
+  const lines = [
+    `Email ${position}${steps ? ` of ${steps.length}` : ''}: "${step?.label || SEQUENCE_STEP_ROLES[role].label}" (${SEQUENCE_STEP_ROLES[role].label}${delay})`,
+    `Its job: ${SEQUENCE_STEP_ROLES[role].brief}`,
+  ];
+
+  if (steps && steps.length > 1) {
+    lines.push('', 'The full sequence (write only this email, but make it fit):');
+    steps.forEach((s, index) => {
+      const roleLabel = SEQUENCE_STEP_ROLES[s.role]?.label || s.role;
+      lines.push(`${index + 1}. ${s.label} - ${roleLabel}${index + 1 === position ? '  <- this one' : ''}`);
+    });
+  }
+
+  return lines.join('\n');
+}
+
+const MAX_BATCH_VARIANTS = 6;
+
+// Component-specific prompts
+const COMPONENT_PROMPTS: Record<string, { A: string; B: string }> = {
+  subject: {
+    A: `Generate a cold email subject line that is:
+- Under 50 characters
+- Direct and professional
+- Creates curiosity without clickbait
+- Can include merge fields like {{company}} or {{firstName}}
+
+Return ONLY the subject line, nothing else.`,
+    B: `Generate a cold email subject line that is:
+- Under 50 characters
+- Conversational and friendly
+- Feels personal, like it's from a colleague
+- Can include merge fields like {{company}} or {{firstName}}
+
+Return ONLY the subject line, nothing else.`,
+  },
+  preview: {
+    A: `Generate email preview text (appears after subject in inbox) that is:
+- Under 100 characters
+- Extends the curiosity from the subject
+- Professional tone
+- Hints at value without giving everything away
+
+Return ONLY the preview text, nothing else.`,
+    B: `Generate email preview text (appears after subject in inbox) that is:
+- Under 100 characters
+- Conversational and intriguing
+- Creates a sense of connection
+- Makes them want to open the email
+
+Return ONLY the preview text, nothing else.`,
+  },
+  hook: {
+    A: `Generate an opening line for a cold email that:
+- Gets straight to the point
+- Shows you've done research (use {{hook}} as placeholder for personalised content)
+- Avoids generic phrases like "I hope this email finds you well"
+- Under 2 sentences
+- Professional but not stiff
+
+Return ONLY the opening line(s), nothing else.`,
+    B: `Generate an opening line for a cold email that:
+- Feels casual and human
+- Uses a question or observation
+- Shows genuine interest in their business (use {{hook}} as placeholder)
+- Under 2 sentences
+- Conversational tone
+
+Return ONLY the opening line(s), nothing else.`,
+  },
+  problem: {
+    A: `Generate a problem statement for a cold email that:
+- Identifies a specific pain point from the knowledge base
+- Uses "you" language to make it personal
+- Is direct and factual
+- 1-2 sentences maximum
+
+Return ONLY the problem statement, nothing else.`,
+    B: `Generate a problem statement for a cold email that:
+- Identifies a pain point as a question or observation
+- Empathetic and understanding tone
+- Makes them feel understood, not attacked
+- 1-2 sentences maximum
+
+Return ONLY the problem statement, nothing else.`,
+  },
+  agitate: {
+    A: `Generate an "agitate" section that:
+- Amplifies the problem with specific consequences
+- Uses concrete examples (lost revenue, wasted time, etc.)
+- Creates urgency without being pushy
+- 1-2 sentences
+
+Return ONLY the agitation text, nothing else.`,
+    B: `Generate an "agitate" section that:
+- Explores the emotional impact of the problem
+- Uses questions to make them reflect
+- Builds empathy and connection
+- 1-2 sentences
+
+Return ONLY the agitation text, nothing else.`,
+  },
+  solution: {
+    A: `Generate a solution statement that:
+- Directly states how you solve the problem
+- Includes a specific result or benefit
+- Professional and confident
+- 1-2 sentences
+
+Return ONLY the solution statement, nothing else.`,
+    B: `Generate a solution statement that:
+- Positions the solution as a discovery or insight
+- Focuses on the transformation, not features
+- Conversational and hopeful
+- 1-2 sentences
+
+Return ONLY the solution statement, nothing else.`,
+  },
+  cta: {
+    A: `Generate a call-to-action that:
+- Is clear and specific (e.g., "15-minute call this week")
+- Low commitment, easy to say yes to
+- Professional tone
+- Single sentence, possibly a question
+
+Return ONLY the CTA, nothing else.`,
+    B: `Generate a call-to-action that:
+- Feels like a genuine invitation, not a sales pitch
+- Low pressure, gives them an easy out
+- Conversational and friendly
+- Single sentence, possibly a question
+
+Return ONLY the CTA, nothing else.`,
+  },
+  ps: {
+    A: `Generate a P.S. line that:
+- Adds social proof or a secondary hook
+- Creates additional curiosity
+- Professional tone
+- Short and punchy
+
+Return ONLY the P.S. text (without "P.S." prefix), nothing else.`,
+    B: `Generate a P.S. line that:
+- Feels like an afterthought (but is strategic)
+- Personal touch or interesting fact
+- Conversational tone
+- Short and memorable
+
+Return ONLY the P.S. text (without "P.S." prefix), nothing else.`,
+  },
+};
+
+export const generateEmailComponent: ApiHandler<GenerateEmailComponentRequest> = async ({
+  knowledgeBase,
+  componentType,
+  emailPosition,
+  sequence,
+  variant,
+  angle,
+  existing,
+  count,
+  audience,
+  mergeFields,
+  anthropicKey,
+}) => {
+  // Use env var if available, otherwise use provided key
+  const apiKey = process.env.ANTHROPIC_API_KEY || anthropicKey;
+  if (!apiKey) {
+    return json({ error: 'API key not configured' }, 500);
+  }
+
+  try {
+    const batchSize = count ? Math.min(Math.max(Math.floor(count), 1), MAX_BATCH_VARIANTS) : 0;
+    if (!knowledgeBase || !componentType || !emailPosition || (variant === undefined && !batchSize)) {
+      return json({ error: 'Missing required fields' }, 400);
+    }
+
+    const prompts = COMPONENT_PROMPTS[componentType];
+    if (!prompts) {
+      return json({ error: `Invalid component type: ${componentType}` }, 400);
+    }
+
+    const written = (existing || []).map(text => text.trim()).filter(Boolean);
+    const writtenBlock = written.length > 0
+      ? `\n\nALREADY WRITTEN (do not repeat these or their angle):\n${written.map(text => `- ${text}`).join('\n')}`
+      : '';
+
+    let variantPrompt: string;
+    if (batchSize) {
+      // Both styles as a starting point; the JSON format replaces their "Return ONLY" line
+      const brief = (prompt: string) => prompt.replace(/\n\nReturn ONLY[^\n]*$/, '');
+      variantPrompt = `Write ${batchSize} variants of this component for a split test. Two styles that work:
+
+STYLE 1:
+${brief(prompts.A)}
+
+STYLE 2:
+${brief(prompts.B)}
+
+Each variant must take a clearly different angle (e.g. pain-led, curiosity, social proof, question, direct ask) - not the same line reworded.${writtenBlock}
+
+Respond in this exact JSON format:
+{
+  "variants": [
+    { "angle": "Two or three words naming the approach", "text": "The variant" }
+  ]
+}`;
+    } else {
+      const stylePrompt = (variant ?? 0) % 2 === 0 ? prompts.A : prompts.B;
+      variantPrompt = `${angle?.trim() ? `ANGLE: take a "${angle.trim()}" approach.\n\n` : ''}${stylePrompt}${writtenBlock}`;
+    }
+
+    const positionLabel = describeStep(emailPosition, sequence);
+
+    const systemPrompt = `You are an expert cold email copywriter who writes in UK English. You create compelling, personalised cold emails that get responses.
+
+Your task is to generate a specific component of a cold email based on the knowledge base provided.
+
+IMPORTANT RULES:
+- Use UK English spelling and grammar (colour, organisation, realise, etc.)
+- Never use generic phrases like "I hope this email finds you well" or "I came across your company"
+- Be specific and reference details from the knowledge base
+- Keep it concise - every word should earn its place
+- Sound human, not like a template or AI
+
+Available merge fields you can use:
+- {{firstName}} - recipient's first name
+- {{lastName}} - recipient's last name
+- {{company}} - recipient's company name
+- {{domain}} - recipient's website domain
+- {{hook}} - personalised opener (generated per-lead from their website)
+- {{industry}}, {{location}}, {{title}} - from their website and team page, when found${mergeFields?.length ? `
+${mergeFields.slice(0, 30).map(field => `- {{${field}}} - from the lead list`).join('\n')}` : ''}
+
+Any field can be empty for some leads, so give anything beyond {{firstName}} and {{company}} a fallback: {{industry|your sector}}.
+Use {{firstName|there}} rather than {{firstName}} in greetings.`;
+
+    const userPrompt = `KNOWLEDGE BASE:
+${knowledgeBase}
+${audience ? `
+WHO THIS CAMPAIGN GOES TO (from the recipients' websites - write for them, but keep it true for all of them):
+${audience.substring(0, 1500)}
+` : ''}
+EMAIL POSITION:
+${positionLabel}
+
+COMPONENT TO GENERATE: ${componentType.toUpperCase()}
+
+${variantPrompt}`;
+
+    const client = new Anthropic({ apiKey });
+
+    const response = await client.messages.create({
+      model: 'claude-sonnet-4-20250514',
+      max_tokens: batchSize ? 200 * batchSize : 300,
+      messages: [
+        { role: 'user', content: userPrompt },
+      ],
+      system: systemPrompt,
+    });
+
+    const textContent = response.content.find(block => block.type === 'text');
+    const content = textContent ? textContent.text.trim() : '';
+    const usage = {
+      inputTokens: response.usage.input_tokens,
+      outputTokens: response.usage.output_tokens,
+    };
+
+    if (batchSize) {
+      const jsonMatch = content.match(/\{[\s\S]*\}/);
+      if (!jsonMatch) {
+        return json({ error: 'Failed to parse AI response', usage }, 500);
+      }
+      const parsed = JSON.parse(jsonMatch[0]) as { variants?: Array<{ angle?: string; text?: string }> };
+      const variants = (parsed.variants || [])
+        .map(v => ({ angle: (v.angle || '').trim(), text: (v.text || '').trim() }))
+        .filter(v => v.text)
+        .slice(0, batchSize);
+
+      return json({ variants, componentType, emailPosition, usage });
+    }
+
+    // Clean up the response (remove quotes if wrapped)
+    let cleanContent = content;
+    if ((cleanContent.startsWith('"') && cleanContent.endsWith('"')) ||
+        (cleanContent.startsWith("'") && cleanContent.endsWith("'"))) {
+      cleanContent = cleanContent.slice(1, -1);
+    }
+
+    return json({
+      content: cleanContent,
+      componentType,
+      emailPosition,
+      variant,
+      usage,
+    });
+  } catch (error) {
+    console.error('Error generating email component:', error);
+    return json({
+      error: error instanceof Error ? error.message : 'Generation failed',
+    }, 500);
+  }
+};
@@ -0,0 +1,104 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { json, type ApiHandler } from '../types.js';
+
+interface GenerateHookRequest {
+  content?: string;
+  companyName?: string;
+  domain?: string;
+  knowledgeBase?: string;
+  companyProfile?: string;  // Formatted profile from email discovery
+  anthropicKey?: string;
+}
+
+export const generateHook: ApiHandler<GenerateHookRequest> = async ({
+  content,
+  companyName,
+  domain,
+  knowledgeBase,
+  companyProfile,
+  anthropicKey,
+}) => {
+  // Use env var if available, otherwise use provided key
+  const apiKey = process.env.ANTHROPIC_API_KEY || anthropicKey;
+
+  if (!content || !domain) {
+    return json({ error: 'Missing content or domain' }, 400);
+  }
+
+  if (!apiKey) {
+    return json({ error: 'Missing Anthropic API key' }, 400);
+  }
+
+  const prompt = `Write two personalised opening hooks for a cold email to this company.
+
+Company: ${companyName || domain}
+Website: ${domain}
+${companyProfile ? `
+What we already know about them (from their site):
+${companyProfile.substring(0, 1500)}
+` : ''}
+Website content (for context):
+${content.substring(0, 6000)}
+${knowledgeBase ? `
+What we sell (our framework - use it to pick which detail of theirs is most relevant, but do NOT pitch):
+${knowledgeBase.substring(0, 3000)}
+` : ''}
+Requirements:
+1. Each hook is 1-2 sentences MAX and slots in as the first line of the email body
+2. Reference something SPECIFIC from their website (a product, service, recent news, company value, etc.)
+3. Variant A: direct and professional. Variant B: casual and conversational, can use a question or observation
+4. The two variants should reference different details where possible
+5. Do NOT include greetings like "Hi" or "Hello", and do NOT include the ask or call-to-action
+6. Never use generic phrases like "I came across your company" or "I hope this email finds you well"
+7. IMPORTANT: Use British English (UK) spelling and grammar throughout
+
+Respond in this exact JSON format:
+{
+  "variantA": "First hook",
+  "variantB": "Second hook"
+}`;
+
+  try {
+    const client = new Anthropic({ apiKey });
+    const response = await client.messages.create({
+      model: 'claude-sonnet-4-20250514',
+      max_tokens: 400,
+      messages: [{ role: 'user', content: prompt }],
+    });
+
+    const textContent = response.content.find(c => c.type === 'text');
+    const text = textContent?.text || '';
+
+    // Parse the JSON response
+    const jsonMatch = text.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      return json({
+        success: false,
+        hook: { variantA: '', variantB: '' },
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+        error: 'Failed to parse AI response',
+      });
+    }
+
+    const parsed = JSON.parse(jsonMatch[0]);
+    const variantA = (parsed.variantA || '').trim();
+    const variantB = (parsed.variantB || '').trim() || variantA;
+
+    return json({
+      success: !!variantA,
+      hook: { variantA, variantB },
+      inputTokens: response.usage.input_tokens,
+      outputTokens: response.usage.output_tokens,
+      ...(variantA ? {} : { error: 'Empty hook returned' }),
+    });
+  } catch (error) {
+    return json({
+      success: false,
+      hook: { variantA: '', variantB: '' },
+      inputTokens: 0,
+      outputTokens: 0,
+      error: error instanceof Error ? error.message : 'Unknown AI error',
+    });
+  }
+};
@@ -0,0 +1,131 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { json, type ApiHandler } from '../types.js';
+
+interface GenerateIcebreakerRequest {
+  content?: string;
+  companyName?: string;
+  domain?: string;
+  tone?: string;
+  companyProfile?: string;  // Formatted profile from email discovery
+  offer?: string;  // Our ICP, pain points and proof points from the selected knowledge base
+  previousIcebreaker?: string;  // A rejected attempt, sent back with what was wrong with it
+  feedback?: string[];
+  anthropicKey?: string;
+}
+
+const toneInstructions: Record<string, string> = {
+  professional: 'Use formal, business-appropriate language. Be respectful and direct.',
+  casual: 'Use a relaxed, conversational tone. Be approachable but still professional.',
+  friendly: 'Be warm and personable. Show genuine interest and enthusiasm.',
+};
+
+export const generateIcebreaker: ApiHandler<GenerateIcebreakerRequest> = async ({
+  content,
+  companyName,
+  domain,
+  tone,
+  companyProfile,
+  offer,
+  previousIcebreaker,
+  feedback,
+  anthropicKey,
+}) => {
+  // Use env var if available, otherwise use provided key
+  const apiKey = process.env.ANTHROPIC_API_KEY || anthropicKey;
+
+  if (!content || !domain) {
+    return json({ error: 'Missing content or domain' }, 400);
+  }
+
+  if (!apiKey) {
+    return json({ error: 'Missing Anthropic API key' }, 400);
+  }
+
+  const prompt = `Generate a personalized cold email icebreaker for outreach to this company.
+
+Company: ${companyName || domain}
+Website: ${domain}
+${companyProfile ? `
+What we already know about them (from their site):
+${companyProfile.substring(0, 1500)}
+` : ''}
+Website content (for context):
+${content.substring(0, 6000)}
+${offer ? `
+What we sell (use it to choose which fact of theirs to open on - do NOT pitch or name our product):
+${offer.substring(0, 3000)}
+` : ''}
+Tone: ${tone || 'professional'}
+${toneInstructions[tone || ''] || toneInstructions.professional}
+
+Requirements:
+1. The icebreaker should be 1-2 sentences MAX
+2. Reference something SPECIFIC from their website (a product, service, recent news, company value, etc.)
+3. Make it feel personal and researched, not generic
+4. Do NOT include greetings like "Hi" or "Hello" - just the icebreaker content
+5. Do NOT include the ask or call-to-action - just the opening hook
+6. IMPORTANT: Use British English (UK) spelling and grammar throughout (e.g., "specialise" not "specialize", "colour" not "color", "organisation" not "organization", "centre" not "center")
+${offer ? `7. Pick the fact from their site that best sets up one of our pain points or proof points, so the rest of the email follows naturally - hint at the situation, never the solution
+` : ''}
+${previousIcebreaker && feedback?.length ? `
+Your previous attempt was rejected:
+"${previousIcebreaker}"
+Problems to fix:
+${feedback.map(problem => `- ${problem}`).join('\n')}
+Write a new icebreaker that fixes every problem - don't just reword the old one.
+` : ''}
+Good example: "I noticed your recent expansion into the European market with the new Berlin office - congratulations on the growth! Your approach to sustainable packaging really stands out in the industry."
+
+Bad example: "I came across your website and was impressed by what you do." (too generic)
+
+Respond in this exact JSON format:
+{
+  "icebreaker": "The icebreaker text",
+  "siteFact": "The specific fact from their website the icebreaker is built on"${offer ? `,
+  "bridge": "Which of our pain points or proof points it leads into, and why it fits them"` : ''}
+}`;
+
+  try {
+    const client = new Anthropic({ apiKey });
+    const response = await client.messages.create({
+      model: 'claude-sonnet-4-20250514',
+      max_tokens: 500,
+      messages: [{ role: 'user', content: prompt }],
+    });
+
+    const textContent = response.content.find(c => c.type === 'text');
+    const text = textContent?.text?.trim() || '';
+
+    // If Claude ignores the format, keep the reply as the icebreaker without a rationale
+    const jsonMatch = text.match(/\{[\s\S]*\}/);
+    let parsed: { icebreaker?: unknown; siteFact?: unknown; bridge?: unknown } = { icebreaker: text };
+    if (jsonMatch) {
+      try {
+        parsed = JSON.parse(jsonMatch[0]);
+      } catch {
+        // Fall through with the raw text
+      }
+    }
+
+    const icebreaker = typeof parsed.icebreaker === 'string' ? parsed.icebreaker.trim() : '';
+    const siteFact = typeof parsed.siteFact === 'string' ? parsed.siteFact.trim() : '';
+    const bridge = offer && typeof parsed.bridge === 'string' ? parsed.bridge.trim() : '';
+
+    return json({
+      success: !!icebreaker,
+      icebreaker,
+      ...(siteFact ? { rationale: { siteFact, ...(bridge ? { bridge } : {}) } } : {}),
+      inputTokens: response.usage.input_tokens,
+      outputTokens: response.usage.output_tokens,
+      ...(icebreaker ? {} : { error: 'Empty icebreaker returned' }),
+    });
+  } catch (error) {
+    return json({
+      success: false,
+      icebreaker: '',
+      inputTokens: 0,
+      outputTokens: 0,
+      error: error instanceof Error ? error.message : 'Unknown AI error',
+    });
+  }
+};
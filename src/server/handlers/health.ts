@@ -0,0 +1,9 @@
+import { json, type ApiHandler } from '../types.js';
+
+export const health: ApiHandler = async () =>
+  json({
+    status: 'ok',
+    timestamp: new Date().toISOString(),
+    hasAnthropicKey: !!process.env.ANTHROPIC_API_KEY,
+    hasFirecrawlKey: !!process.env.FIRECRAWL_API_KEY,
+  });
@@ -0,0 +1,39 @@
+import type { ScrapeProviderName } from '../../agent/types.js';
+import { getScrapeProvider } from '../scrapeProviders.js';
+import { getScrapeCache } from '../scrapeCache.js';
+import { json, type ApiHandler } from '../types.js';
+
+interface ScrapeRequest {
+  url?: string;
+  provider?: ScrapeProviderName;
+  firecrawlKey?: string;
+}
+
+export const scrape: ApiHandler<ScrapeRequest> = async ({ url, provider = 'firecrawl', firecrawlKey }) => {
+  // Use env var if available, otherwise use provided key
+  const apiKey = process.env.FIRECRAWL_API_KEY || firecrawlKey;
+
+  if (!url) {
+    return json({ error: 'Missing url' }, 400);
+  }
+
+  if (provider !== 'firecrawl' && provider !== 'native') {
+    return json({ error: `Unknown scrape provider: ${provider}` }, 400);
+  }
+
+  // A cached page is served whichever provider fetched it - no key needed
+  const cache = getScrapeCache();
+  const cached = await cache.get(url);
+  if (cached) {
+    return json({ ...cached.page, provider: cached.provider, cache: 'hit', cachedAt: cached.cachedAt });
+  }
+
+  const scraper = getScrapeProvider(provider, apiKey);
+  if (!scraper) {
+    return json({ error: 'Missing Firecrawl API key' }, 400);
+  }
+
+  const page = await scraper.scrape(url);
+  await cache.set(url, page, scraper.name);
+  return json({ ...page, provider: scraper.name, cache: 'miss' });
+};
@@ -0,0 +1,45 @@
+import { promises as dns } from 'dns';
+import { verifyEmails as verifyDeliverability, type DnsResolver } from '../../agent/emailVerification.js';
+import { json, type ApiHandler } from '../types.js';
+
+interface VerifyEmailsRequest {
+  emails?: string[];
+  inferred?: boolean;
+}
+
+// "No such domain" and "no records" both mean there's nothing there; anything else is a failed lookup
+const NO_RECORD_CODES = new Set(['ENOTFOUND', 'ENODATA']);
+
+async function orEmpty<T>(lookup: Promise<T[]>): Promise<T[]> {
+  try {
+    return await lookup;
+  } catch (error) {
+    if (NO_RECORD_CODES.has((error as NodeJS.ErrnoException).code || '')) return [];
+    throw error;
+  }
+}
+
+const systemResolver: DnsResolver = {
+  resolveMx: domain => orEmpty(dns.resolveMx(domain)),
+  resolveAddress: async (domain) => {
+    const [v4, v6] = await Promise.all([orEmpty(dns.resolve4(domain)), orEmpty(dns.resolve6(domain))]);
+    return [...v4, ...v6];
+  },
+};
+
+export const verifyEmails: ApiHandler<VerifyEmailsRequest> = async ({ emails, inferred }) => {
+  if (!Array.isArray(emails) || emails.length === 0) {
+    return json({ error: 'Missing emails' }, 400);
+  }
+
+  try {
+    const verdicts = await verifyDeliverability(emails.slice(0, 20), systemResolver, { inferred: !!inferred });
+    return json({ success: true, verdicts });
+  } catch (error) {
+    return json({
+      success: false,
+      verdicts: {},
+      error: error instanceof Error ? error.message : 'Unknown verification error',
+    });
+  }
+};
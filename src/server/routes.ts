@@ -0,0 +1,31 @@
+/**
+ * API route table shared by the Express dev server and the Vercel functions
+ */
+
+import type { ApiRoute } from './types.js';
+import { health } from './handlers/health.js';
+import { scrape } from './handlers/scrape.js';
+import { extractEmails } from './handlers/extractEmails.js';
+import { generateIcebreaker } from './handlers/generateIcebreaker.js';
+import { generateHook } from './handlers/generateHook.js';
+import { generateEmailComponent } from './handlers/generateEmailComponent.js';
+import { verifyEmails } from './handlers/verifyEmails.js';
+
+export const routes: ApiRoute[] = [
+  { method: 'GET', path: '/health', handler: health },
+  { method: 'POST', path: '/scrape', handler: scrape },
+  { method: 'POST', path: '/extract-emails', handler: extractEmails },
+  { method: 'POST', path: '/generate-icebreaker', handler: generateIcebreaker },
+  { method: 'POST', path: '/generate-hook', handler: generateHook },
+  { method: 'POST', path: '/generate-email-component', handler: generateEmailComponent },
+  { method: 'POST', path: '/verify-emails', handler: verifyEmails },
+];
+
+/**
+ * Look up a route by path (e.g. '/scrape')
+ */
+export function getRoute(path: string): ApiRoute {
+  const route = routes.find(r => r.path === path);
+  if (!route) throw new Error(`Unknown API route: ${path}`);
+  return route;
+}
@@ -0,0 +1,58 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createFileScrapeCache, scrapeCacheKey } from './scrapeCache.js';
+
+let dir: string;
+
+before(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'scrape-cache-test-'));
+});
+
+after(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+const page = (url: string, markdown = 'Hello') => ({ success: true, url, markdown });
+
+test('the key ignores scheme and host case, a missing scheme and trailing slashes, but not path case', () => {
+  assert.equal(scrapeCacheKey('Acme.com/'), 'https://acme.com');
+  assert.equal(scrapeCacheKey('HTTPS://WWW.Acme.com/About/'), 'https://www.acme.com/About');
+  assert.equal(scrapeCacheKey('https://acme.com/search?q=Widgets'), 'https://acme.com/search?q=Widgets');
+  assert.notEqual(scrapeCacheKey('https://acme.com/Team'), scrapeCacheKey('https://acme.com/team'));
+});
+
+test('a stored page is a hit under any spelling of its key, and other pages miss', async () => {
+  const cache = createFileScrapeCache({ dir, ttlMs: 60_000 });
+  await cache.set('https://acme.com/Team', page('https://acme.com/Team', 'Team page'), 'native');
+
+  const hit = await cache.get('ACME.com/Team/');
+  assert.equal(hit?.page.markdown, 'Team page');
+  assert.equal(hit?.provider, 'native');
+  assert.equal(await cache.get('https://acme.com/team'), null);
+  assert.equal(await cache.get('https://other.com'), null);
+});
+
+test('failed scrapes are not stored', async () => {
+  const cache = createFileScrapeCache({ dir, ttlMs: 60_000 });
+  await cache.set('https://acme.com/broken', { success: false, url: 'https://acme.com/broken', error: 'HTTP 500' }, 'native');
+  assert.equal(await cache.get('https://acme.com/broken'), null);
+});
+
+test('expired entries miss and are removed', async () => {
+  const cache = createFileScrapeCache({ dir, ttlMs: 20 });
+  await cache.set('https://acme.com/old', page('https://acme.com/old'), 'firecrawl');
+  const filesBefore = await fs.readdir(dir);
+
+  await new Promise(resolve => setTimeout(resolve, 40));
+  assert.equal(await cache.get('https://acme.com/old'), null);
+  assert.equal((await fs.readdir(dir)).length, filesBefore.length - 1);
+});
+
+test('a TTL of 0 disables the cache', async () => {
+  const cache = createFileScrapeCache({ dir, ttlMs: 0 });
+  await cache.set('https://acme.com/off', page('https://acme.com/off'), 'native');
+  assert.equal(await cache.get('https://acme.com/off'), null);
+});
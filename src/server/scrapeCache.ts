@@ -0,0 +1,119 @@
+/**
+ * Server-side scrape cache
+ * Successful scrapes are kept on disk, keyed by scrapeCacheKey(url), so re-running a list
+ * doesn't pay for the same pages twice. One JSON file per page under SCRAPE_CACHE_DIR.
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { ScrapeProviderName } from '../agent/types.js';
+import type { ScrapedPage } from '../agent/scrapeProvider.js';
+
+export interface CachedPage {
+  page: ScrapedPage;
+  provider: ScrapeProviderName;  // Whichever provider fetched it originally
+  cachedAt: string;  // ISO string
+}
+
+export interface ScrapeCache {
+  get: (url: string) => Promise<CachedPage | null>;
+  set: (url: string, page: ScrapedPage, provider: ScrapeProviderName) => Promise<void>;
+}
+
+export interface FileScrapeCacheOptions {
+  dir: string;
+  ttlMs: number;  // 0 disables the cache
+}
+
+const DEFAULT_TTL_HOURS = 24;
+
+interface CacheFile extends CachedPage {
+  key: string;
+}
+
+/**
+ * Cache key for a URL - the same page reached as "Acme.com/" or "https://acme.com" shares an entry
+ * Only the scheme and host are case-insensitive; "/Team" and "/team" can be different pages
+ */
+export function scrapeCacheKey(url: string): string {
+  const trimmed = url.trim();
+  const withScheme = /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+  try {
+    const parsed = new URL(withScheme);
+    return `${parsed.protocol}//${parsed.host}${parsed.pathname.replace(/\/+$/, '')}${parsed.search}`;
+  } catch {
+    return withScheme;
+  }
+}
+
+/**
+ * File-backed cache: expired entries are ignored on read and removed lazily
+ * Cache errors never fail a scrape - a broken cache is logged and behaves as a miss
+ */
+export function createFileScrapeCache({ dir, ttlMs }: FileScrapeCacheOptions): ScrapeCache {
+  const fileFor = (key: string) =>
+    path.join(dir, `${createHash('sha1').update(key).digest('hex')}.json`);
+
+  const get = async (url: string): Promise<CachedPage | null> => {
+    if (ttlMs <= 0) return null;
+    const key = scrapeCacheKey(url);
+    const file = fileFor(key);
+
+    try {
+      const entry = JSON.parse(await fs.readFile(file, 'utf8')) as CacheFile;
+      if (entry.key !== key) return null;
+
+      if (Date.now() - new Date(entry.cachedAt).getTime() > ttlMs) {
+        await fs.rm(file, { force: true });
+        return null;
+      }
+
+      return { page: entry.page, provider: entry.provider, cachedAt: entry.cachedAt };
+    } catch (error) {
+      // No file is an ordinary miss; anything else means the cache itself is broken
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Error reading scrape cache:', error);
+      }
+      return null;
+    }
+  };
+
+  const set = async (url: string, page: ScrapedPage, provider: ScrapeProviderName): Promise<void> => {
+    if (ttlMs <= 0 || !page.success) return;
+    const key = scrapeCacheKey(url);
+    const entry: CacheFile = { key, page, provider, cachedAt: new Date().toISOString() };
+
+    try {
+      await fs.mkdir(dir, { recursive: true });
+      // Write then rename so a concurrent reader never sees half a file;
+      // each write gets its own temp file so two sets of one URL can't interleave
+      const file = fileFor(key);
+      const tmpFile = `${file}.${process.pid}.${randomUUID()}.tmp`;
+      await fs.writeFile(tmpFile, JSON.stringify(entry));
+      await fs.rename(tmpFile, file);
+    } catch (error) {
+      console.error('Error writing scrape cache:', error);
+    }
+  };
+
+  return { get, set };
+}
+
+let defaultCache: ScrapeCache | null = null;
+
+/**
+ * The cache used by the scrape handler, configured from the environment:
+ * SCRAPE_CACHE_DIR (default .cache/scrape, or /tmp on Vercel where that's the only writable path)
+ * SCRAPE_CACHE_TTL_HOURS (default 24, 0 disables)
+ */
+export function getScrapeCache(): ScrapeCache {
+  if (!defaultCache) {
+    const ttlHours = Number(process.env.SCRAPE_CACHE_TTL_HOURS ?? DEFAULT_TTL_HOURS);
+    defaultCache = createFileScrapeCache({
+      dir: process.env.SCRAPE_CACHE_DIR || (process.env.VERCEL ? '/tmp/scrape-cache' : '.cache/scrape'),
+      ttlMs: Number.isFinite(ttlHours) ? ttlHours * 60 * 60 * 1000 : DEFAULT_TTL_HOURS * 60 * 60 * 1000,
+    });
+  }
+  return defaultCache;
+}
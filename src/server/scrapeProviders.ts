@@ -0,0 +1,79 @@
+/**
+ * Server-side scrape providers
+ * Firecrawl lives here rather than in src/agent so its SDK never reaches the browser bundle
+ */
+
+import { promises as dns } from 'dns';
+import FirecrawlApp from '@mendable/firecrawl-js';
+import type { ScrapeProviderName } from '../agent/types.js';
+import { createNativeScrapeProvider, createPublicFetch, type ScrapeProvider } from '../agent/scrapeProvider.js';
+import { createCrawlPoliteness, withPoliteness, type CrawlPoliteness } from '../agent/politeness.js';
+
+/**
+ * Firecrawl provider: JavaScript rendering and main-content extraction done upstream
+ */
+export function createFirecrawlScrapeProvider(apiKey: string): ScrapeProvider {
+  const client = new FirecrawlApp({ apiKey });
+
+  const scrape: ScrapeProvider['scrape'] = async (url) => {
+    try {
+      const response = await client.scrapeUrl(url, {
+        formats: ['markdown', 'links'],
+        onlyMainContent: true,
+        waitFor: 2000,
+      });
+
+      if (!response.success) {
+        return { success: false, url, error: response.error || 'Failed to scrape URL' };
+      }
+
+      return {
+        success: true,
+        url,
+        markdown: response.markdown,
+        title: response.metadata?.title,
+        description: response.metadata?.description,
+        links: response.links,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        url,
+        error: error instanceof Error ? error.message : 'Unknown scraping error',
+      };
+    }
+  };
+
+  return { name: 'firecrawl', scrape };
+}
+
+// Anyone can ask this server for a page, so it only ever fetches public http(s) hosts
+const publicFetch = createPublicFetch(async hostname =>
+  (await dns.lookup(hostname, { all: true })).map(record => record.address)
+);
+
+let politeness: CrawlPoliteness | null = null;
+
+/**
+ * robots.txt and per-host delays shared by every request this server handles
+ * CRAWL_MIN_DELAY_MS sets the gap between requests to one host (default 1000)
+ */
+function getCrawlPoliteness(): CrawlPoliteness {
+  if (!politeness) {
+    const minDelayMs = Number(process.env.CRAWL_MIN_DELAY_MS);
+    politeness = createCrawlPoliteness({
+      fetch: publicFetch,
+      ...(Number.isFinite(minDelayMs) && minDelayMs >= 0 ? { minDelayMs } : {}),
+    });
+  }
+  return politeness;
+}
+
+/**
+ * Pick the provider for a request; Firecrawl needs a key, the native provider doesn't
+ * Either way, pages go through the politeness checks before they're fetched
+ */
+export function getScrapeProvider(name: ScrapeProviderName, firecrawlKey?: string): ScrapeProvider | null {
+  if (name === 'native') return withPoliteness(createNativeScrapeProvider({ fetch: publicFetch }), getCrawlPoliteness());
+  return firecrawlKey ? withPoliteness(createFirecrawlScrapeProvider(firecrawlKey), getCrawlPoliteness()) : null;
+}
@@ -0,0 +1,25 @@
+/**
+ * Types for the shared API handler layer
+ * Handlers are framework-agnostic: they take the parsed JSON body and return a
+ * status and JSON payload. The Express server and the Vercel functions adapt them.
+ */
+
+export interface ApiResponse {
+  status: number;
+  body: unknown;
+}
+
+export type ApiHandler<TBody = Record<string, unknown>> = (body: TBody) => Promise<ApiResponse>;
+
+export interface ApiRoute {
+  method: 'GET' | 'POST';
+  path: string;  // Mounted under /api
+  handler: ApiHandler<never>;
+}
+
+/**
+ * Build a handler response (200 unless a status is given)
+ */
+export function json(body: unknown, status = 200): ApiResponse {
+  return { status, body };
+}
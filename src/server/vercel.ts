@@ -0,0 +1,28 @@
+/**
+ * Adapt a shared API route to a Vercel serverless function
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getRoute } from './routes.js';
+
+export function createVercelHandler(path: string) {
+  const route = getRoute(path);
+
+  return async function handler(req: VercelRequest, res: VercelResponse) {
+    // CORS headers (the Express server gets the same from the cors middleware)
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', `${route.method}, OPTIONS`);
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+    if (req.method === 'OPTIONS') {
+      return res.status(200).end();
+    }
+
+    if (req.method !== route.method) {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { status, body } = await route.handler((req.body || {}) as never);
+    return res.status(status).json(body);
+  };
+}
@@ -0,0 +1,6 @@
+/**
+ * App-wide types shared by the root component, its children and the session store
+ */
+
+// Where the user is in the pipeline
+export type AppStage = 'loading' | 'setup' | 'upload' | 'knowledge_base' | 'campaign_builder' | 'configure' | 'finding_emails' | 'review' | 'enriching' | 'complete';
@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Campaign, CampaignLead, SequenceEmail } from '../agent/types';
+import { assembleBody, describeSelection, renderEmail, renderEmailSpintax, renderLeadEmails, sendableVariants, textToHtml } from './emailRenderer';
+
+const email: SequenceEmail = {
+  position: 1,
+  label: 'Intro Email',
+  delayDays: 0,
+  components: [
+    { type: 'subject', variants: [{ text: 'Quick one, {{firstName}}' }, { text: 'Idea for {{company}}', weight: 2 }] },
+    { type: 'cta', variants: [{ text: 'Worth a chat?' }, { text: '' }] },
+    { type: 'ps', variants: [{ text: 'PS: we work with {{similarCompany|teams like yours}}' }] },
+    { type: 'hook', variants: [{ text: '{{hook}}' }, { text: '{{hook}} & more' }] },
+  ],
+};
+
+const lead = {
+  website: 'acme.com',
+  company: 'Acme',
+  name: 'Jane Doe',
+  enrichmentStatus: 'completed',
+  hook: { variantA: 'Saw your launch', variantB: 'Loved the <blog>' },
+} as CampaignLead;
+
+test('the body runs hook to P.S. in reading order, with the P.S. prefixed exactly once', () => {
+  assert.equal(assembleBody(email, 0), '{{hook}}\n\nWorth a chat?\n\nP.S. we work with {{similarCompany|teams like yours}}');
+});
+
+test('a blank variant falls back to the first one with text', () => {
+  assert.deepEqual(sendableVariants(email.components[1]), [0]);
+  assert.match(assembleBody(email, 1), /Worth a chat\?/);
+});
+
+test('rendering for a lead merges every component, with {{hook}} following the component\'s variant', () => {
+  const rendered = renderEmail(email, 1, lead);
+  assert.equal(rendered.subject, 'Idea for Acme');
+  assert.equal(rendered.text, 'Loved the <blog> & more\n\nWorth a chat?\n\nP.S. we work with teams like yours');
+  assert.equal(rendered.html, '<p>Loved the &lt;blog&gt; &amp; more</p>\n<p>Worth a chat?</p>\n<p>P.S. we work with teams like yours</p>');
+  assert.deepEqual(rendered.unresolved, []);
+});
+
+test('a per-component selection is labelled by the components that have a choice', () => {
+  const rendered = renderEmail(email, { subject: 1, hook: 0 }, lead);
+  assert.equal(rendered.label, 'subject:B hook:A');
+  assert.equal(rendered.subject, 'Idea for Acme');
+  assert.match(rendered.text, /^Saw your launch\n/);
+  assert.equal(describeSelection(email, 2), 'C');
+});
+
+test('without a lead the templates come back as written', () => {
+  const rendered = renderEmail(email, 0);
+  assert.equal(rendered.subject, 'Quick one, {{firstName}}');
+  assert.deepEqual(rendered.unresolved, []);
+});
+
+test('unresolved fields are collected across the whole email', () => {
+  const nameless = { ...lead, name: undefined } as CampaignLead;
+  assert.deepEqual(renderEmail(email, 0, nameless).unresolved, ['firstName']);
+});
+
+test('spintax export renders each variant for the lead and weights them by repetition', () => {
+  const spun = renderEmailSpintax(email, lead);
+  assert.equal(spun.subject, '{Quick one, Jane|Idea for Acme|Idea for Acme}');
+  assert.equal(spun.body, '{Saw your launch|Loved the <blog> & more}\n\nWorth a chat?\n\nP.S. we work with teams like yours');
+  assert.equal(spun.preview, '');
+});
+
+test('every variant of every email is rendered for a lead', () => {
+  const campaign = { id: 'c1', name: 'Test', knowledgeBaseId: 'kb', createdAt: '', updatedAt: '', sequence: [email] } as Campaign;
+  const [first] = renderLeadEmails(lead, campaign);
+  assert.equal(first.position, 1);
+  assert.deepEqual(first.variants.map(variant => variant.subject), ['Quick one, Jane', 'Idea for Acme']);
+});
+
+test('plain text becomes paragraphs and line breaks, escaped', () => {
+  assert.equal(textToHtml('Hi "Jane",\nthanks\n\n\nBye'), '<p>Hi &quot;Jane&quot;,<br>thanks</p>\n<p>Bye</p>');
+});
@@ -0,0 +1,172 @@
+/**
+ * Email renderer
+ * The one place a SequenceEmail becomes an email: components assembled in order, merge fields
+ * resolved against a lead, and the body produced as both plain text and HTML.
+ * The editor preview, per-lead rendering and every export go through here.
+ */
+
+import type { CampaignLead, Campaign, SequenceEmail, GeneratedEmailContent, EmailComponent, EmailComponentType } from '../agent/types';
+import { emailVariantCount, variantLabel, variantWeight } from '../agent/sequence';
+import { renderTemplate, toSpintax } from './mergeFields';
+
+/**
+ * Which variant to use: one index for every component (variant B = 1),
+ * or an index per component as split-test assignment produces
+ */
+export type VariantSelection = number | Partial<Record<EmailComponentType, number>>;
+
+export interface RenderedEmail {
+  position: SequenceEmail['position'];
+  label: string;  // "B", or per component for a mixed selection ("subject:B hook:A")
+  subject: string;
+  preview: string;
+  text: string;
+  html: string;
+  unresolved: string[];  // Merge fields left blank for this lead (empty without a lead)
+}
+
+// Body components in the order they're read; subject and preview sit outside the body
+const BODY_ORDER: EmailComponentType[] = ['hook', 'problem', 'agitate', 'solution', 'cta', 'ps'];
+
+// Written both ways in practice - the generator returns the text alone, people type the prefix
+const PS_PREFIX = /^p\.?\s*s\.?[\s:-]*/i;
+
+function selectedIndex(selection: VariantSelection, type: EmailComponentType): number {
+  return typeof selection === 'number' ? selection : selection[type] ?? 0;
+}
+
+/**
+ * The variant actually used for an index: a blank or missing variant falls back to the
+ * first one with text, the same as spintax, which leaves blank options out
+ */
+function pickVariant(component: EmailComponent | undefined, index: number): { text: string; index: number } {
+  if (!component) return { text: '', index };
+  if (component.variants[index]?.text.trim()) return { text: component.variants[index].text, index };
+  const fallback = component.variants.findIndex(v => v.text.trim());
+  return fallback === -1 ? { text: '', index } : { text: component.variants[fallback].text, index: fallback };
+}
+
+/**
+ * Indexes of a component's non-blank variants - the ones a split test can actually send
+ */
+export function sendableVariants(component: EmailComponent): number[] {
+  return component.variants.flatMap((variant, index) => (variant.text.trim() ? [index] : []));
+}
+
+function formatPart(type: EmailComponentType, text: string): string {
+  const value = text.trim();
+  if (!value) return '';
+  return type === 'ps' ? `P.S. ${value.replace(PS_PREFIX, '')}` : value;
+}
+
+/**
+ * One variant of one component, as written (merge fields intact)
+ */
+export function getComponentVariant(email: SequenceEmail, type: EmailComponentType, selection: VariantSelection): string {
+  return pickVariant(email.components.find(c => c.type === type), selectedIndex(selection, type)).text;
+}
+
+/**
+ * The body template: non-empty components joined by blank lines, with the P.S. prefixed exactly once
+ */
+export function assembleBody(email: SequenceEmail, selection: VariantSelection): string {
+  return BODY_ORDER
+    .map(type => formatPart(type, getComponentVariant(email, type, selection)))
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Plain-text body to HTML: blank lines become paragraphs, single line breaks become <br>
+ */
+export function textToHtml(text: string): string {
+  return text
+    .split(/\n{2,}/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+    .join('\n');
+}
+
+/**
+ * Label for a selection, naming only the components that actually have a choice
+ */
+export function describeSelection(email: SequenceEmail, selection: VariantSelection): string {
+  if (typeof selection === 'number') return variantLabel(selection);
+  return email.components
+    .filter(c => sendableVariants(c).length > 1)
+    .map(c => `${c.type}:${variantLabel(pickVariant(c, selectedIndex(selection, c.type)).index)}`)
+    .join(' ');
+}
+
+/**
+ * Render one variant of an email for a lead
+ * Components are rendered one at a time so {{hook}} follows each component's own variant.
+ * Without a lead the templates come back as written, merge fields and all
+ */
+export function renderEmail(email: SequenceEmail, selection: VariantSelection, lead?: CampaignLead): RenderedEmail {
+  const unresolved = new Set<string>();
+  const render = (type: EmailComponentType) => {
+    const { text, index } = pickVariant(email.components.find(c => c.type === type), selectedIndex(selection, type));
+    if (!lead) return text;
+    const rendered = renderTemplate(text, lead, index);
+    rendered.unresolved.forEach(field => unresolved.add(field));
+    return rendered.text;
+  };
+
+  const text = BODY_ORDER.map(type => formatPart(type, render(type))).filter(Boolean).join('\n\n');
+
+  return {
+    position: email.position,
+    label: describeSelection(email, selection),
+    subject: render('subject'),
+    preview: render('preview'),
+    text,
+    html: textToHtml(text),
+    unresolved: [...unresolved],
+  };
+}
+
+/**
+ * One lead's email as spintax, for sending tools that pick the variant themselves
+ * Each component becomes its own {A|B|C} block, weighted by repeating options
+ */
+export function renderEmailSpintax(email: SequenceEmail, lead: CampaignLead): { subject: string; preview: string; body: string } {
+  const spin = (type: EmailComponentType) => {
+    const component = email.components.find(c => c.type === type);
+    if (!component) return '';
+    const indexes = sendableVariants(component);
+    return toSpintax(
+      indexes.map(index => formatPart(type, renderTemplate(component.variants[index].text, lead, index).text)),
+      indexes.map(index => variantWeight(component.variants[index]))
+    );
+  };
+
+  return {
+    subject: spin('subject'),
+    preview: spin('preview'),
+    body: BODY_ORDER.map(spin).filter(Boolean).join('\n\n'),
+  };
+}
+
+/**
+ * Render every email in the campaign sequence for a single lead,
+ * with every variant fully merged (including the lead's own hook)
+ */
+export function renderLeadEmails(lead: CampaignLead, campaign: Campaign): GeneratedEmailContent[] {
+  return campaign.sequence.map(email => ({
+    position: email.position,
+    variants: Array.from({ length: emailVariantCount(email) }, (_, index) => {
+      const rendered = renderEmail(email, index, lead);
+      return { label: rendered.label, subject: rendered.subject, preview: rendered.preview, body: rendered.text };
+    }),
+  }));
+}
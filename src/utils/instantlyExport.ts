@@ -1,86 +1,68 @@
 /**
  * Instantly.ai Export Utility
- * Generates CSV exports with spintax format for A/B testing
+ * Generates CSV exports for split testing - spintax for tools that pick variants themselves,
+ * or variants assigned here by a seeded hash and named in columns for tools that don't
  */
 
-import type { CampaignLead, Campaign, SequenceEmail } from '../agent/types';
-
-// Spintax format: {Variant A|Variant B}
-function toSpintax(variantA: string, variantB: string): string {
-  if (!variantA && !variantB) return '';
-  if (!variantB || variantA === variantB) return variantA;
-  if (!variantA) return variantB;
-  return `{${variantA}|${variantB}}`;
+import type { CampaignLead, Campaign, SequenceEmail, VariantAssignment, VariantManifest } from '../agent/types';
+import { emailVariantCount, variantLabel, variantWeight } from '../agent/sequence';
+import { listMergeFields, mergeFieldKey, resolveMergeField } from './mergeFields';
+import { assembleBody, renderEmail, renderEmailSpintax, renderLeadEmails } from './emailRenderer';
+import { assignVariantsByHash, assignmentLookup } from './variantAssignment';
+
+export type VariantMode = 'spintax' | 'assigned';
+
+// One lead's copy for an email; variant is only filled when it was assigned here
+function renderForExport(
+  email: SequenceEmail,
+  lead: CampaignLead,
+  assignment: VariantAssignment | undefined,
+  mode: VariantMode
+): { subject: string; preview: string; body: string; variant: string } {
+  if (mode === 'spintax') return { ...renderEmailSpintax(email, lead), variant: '' };
+  const selection = assignment?.steps.find(step => step.position === email.position)?.selection || {};
+  const rendered = renderEmail(email, selection, lead);
+  return { subject: rendered.subject, preview: rendered.preview, body: rendered.text, variant: rendered.label };
 }
 
-// Replace merge fields with lead data
-function replaceMergeFields(template: string, lead: CampaignLead): string {
-  let result = template;
-
-  // Standard merge fields
-  const fields: Record<string, string | undefined> = {
-    '{{firstName}}': lead.extraFields?.firstName || lead.extraFields?.first_name || '',
-    '{{lastName}}': lead.extraFields?.lastName || lead.extraFields?.last_name || '',
-    '{{company}}': lead.company || '',
-    '{{domain}}': lead.website || lead.domainValidation?.domain || '',
-    '{{email}}': lead.email || '',
-  };
-
-  // Replace standard fields
-  for (const [placeholder, value] of Object.entries(fields)) {
-    result = result.replace(new RegExp(placeholder.replace(/[{}]/g, '\\$&'), 'g'), value || '');
-  }
-
-  // Replace hook with generated hook (if available)
-  if (lead.hook) {
-    const hookSpintax = toSpintax(lead.hook.variantA, lead.hook.variantB);
-    result = result.replace(/\{\{hook\}\}/g, hookSpintax);
-  }
-
-  return result;
+export interface UnresolvedFieldReport {
+  lead: CampaignLead;
+  fields: string[];
 }
 
-// Assemble email body from components
-function assembleBody(email: SequenceEmail, variant: 'A' | 'B'): string {
-  const parts: string[] = [];
-  const componentOrder = ['hook', 'problem', 'agitate', 'solution', 'cta', 'ps'];
-
-  for (const type of componentOrder) {
-    const component = email.components.find(c => c.type === type);
-    if (!component) continue;
-
-    const value = variant === 'A' ? component.variantA : component.variantB;
-    if (value && value.trim()) {
-      // Add "P.S." prefix for PS component
-      if (type === 'ps') {
-        parts.push(`P.S. ${value.trim()}`);
-      } else {
-        parts.push(value.trim());
+/**
+ * Leads whose sequence would go out with a merge field left empty (no value and no default)
+ * Checked across every variant of every email, so nothing is found out after sending
+ */
+export function findUnresolvedFields(leads: CampaignLead[], campaign: Campaign): UnresolvedFieldReport[] {
+  return leads.flatMap(lead => {
+    const fields = new Set<string>();
+    for (const email of campaign.sequence) {
+      for (let variant = 0; variant < emailVariantCount(email); variant++) {
+        renderEmail(email, variant, lead).unresolved.forEach(field => fields.add(field));
       }
     }
-  }
-
-  return parts.join('\n\n');
-}
-
-// Get component value with spintax
-function getComponentSpintax(email: SequenceEmail, type: string): string {
-  const component = email.components.find(c => c.type === type);
-  if (!component) return '';
-  return toSpintax(component.variantA, component.variantB);
+    return fields.size > 0 ? [{ lead, fields: [...fields] }] : [];
+  });
 }
 
-// Generate body with spintax
-function assembleBodySpintax(email: SequenceEmail): string {
-  const bodyA = assembleBody(email, 'A');
-  const bodyB = assembleBody(email, 'B');
-  return toSpintax(bodyA, bodyB);
+/**
+ * Check whether a campaign uses the {{hook}} merge field anywhere
+ */
+export function campaignUsesHook(campaign: Campaign): boolean {
+  return campaign.sequence.some(email =>
+    email.components.some(c =>
+      c.variants.some(({ text }) => listMergeFields(text).some(token => mergeFieldKey(token.field) === 'hook'))
+    )
+  );
 }
 
 export interface ExportOptions {
   format: 'instantly' | 'csv' | 'json';
-  includeAllEmails: boolean; // If true, include all 3 emails in separate columns
+  includeAllEmails: boolean; // If true, include every email in the sequence in separate columns
   separateByEmail: boolean;  // If true, export separate file per email
+  variantMode: VariantMode;  // Spintax in the copy, or one variant per lead named in variant_id and _variant columns
+  manifest: VariantManifest;  // Assignment to use in assigned mode - built from the leads when not given
 }
 
 export interface ExportResult {
@@ -97,31 +79,35 @@ export function exportToInstantly(
   campaign: Campaign,
   options: Partial<ExportOptions> = {}
 ): ExportResult[] {
-  const { includeAllEmails = true, separateByEmail = false } = options;
+  const { includeAllEmails = true, separateByEmail = false, variantMode = 'spintax' } = options;
+  const assigned = variantMode === 'assigned';
+  const lookup = assigned ? assignmentLookup(options.manifest || assignVariantsByHash(leads, campaign)) : () => undefined;
 
   if (separateByEmail) {
     // Export separate CSV for each email in sequence
     return campaign.sequence.map(email => {
       const rows = leads.map(lead => {
-        const subject = getComponentSpintax(email, 'subject');
-        const preview = getComponentSpintax(email, 'preview');
-        const body = assembleBodySpintax(email);
+        const assignment = lookup(lead.email);
+        const { subject, preview, body, variant } = renderForExport(email, lead, assignment, variantMode);
 
         return {
           email: lead.email || '',
-          firstName: lead.extraFields?.firstName || lead.extraFields?.first_name || '',
-          lastName: lead.extraFields?.lastName || lead.extraFields?.last_name || '',
+          firstName: resolveMergeField(lead, 'firstName'),
+          lastName: resolveMergeField(lead, 'lastName'),
           company: lead.company || '',
           domain: lead.website || '',
-          subject: replaceMergeFields(subject, lead),
-          preview: replaceMergeFields(preview, lead),
-          body: replaceMergeFields(body, lead),
+          subject,
+          preview,
+          body,
+          variant,
+          variant_id: assignment?.variantId || '',
         };
       });
 
       const csv = generateCSV(rows, [
         'email', 'firstName', 'lastName', 'company', 'domain',
-        'subject', 'preview', 'body'
+        'subject', 'preview', 'body',
+        ...(assigned ? ['variant', 'variant_id'] : []),
       ]);
 
       return {
@@ -134,38 +120,38 @@ export function exportToInstantly(
 
   // Single CSV with all emails
   const rows = leads.map(lead => {
+    const assignment = lookup(lead.email);
     const row: Record<string, string> = {
       email: lead.email || '',
-      firstName: lead.extraFields?.firstName || lead.extraFields?.first_name || '',
-      lastName: lead.extraFields?.lastName || lead.extraFields?.last_name || '',
+      firstName: resolveMergeField(lead, 'firstName'),
+      lastName: resolveMergeField(lead, 'lastName'),
       company: lead.company || '',
       domain: lead.website || '',
     };
+    if (assigned) row.variant_id = assignment?.variantId || '';
 
     if (includeAllEmails) {
       // Add columns for each email in sequence
       campaign.sequence.forEach(email => {
         const prefix = `email${email.position}`;
-        const subject = getComponentSpintax(email, 'subject');
-        const preview = getComponentSpintax(email, 'preview');
-        const body = assembleBodySpintax(email);
+        const { subject, preview, body, variant } = renderForExport(email, lead, assignment, variantMode);
 
-        row[`${prefix}_subject`] = replaceMergeFields(subject, lead);
-        row[`${prefix}_preview`] = replaceMergeFields(preview, lead);
-        row[`${prefix}_body`] = replaceMergeFields(body, lead);
+        row[`${prefix}_subject`] = subject;
+        row[`${prefix}_preview`] = preview;
+        row[`${prefix}_body`] = body;
         row[`${prefix}_delay`] = String(email.delayDays);
+        if (assigned) row[`${prefix}_variant`] = variant;
       });
     } else {
       // Just the first email
       const email = campaign.sequence[0];
       if (email) {
-        const subject = getComponentSpintax(email, 'subject');
-        const preview = getComponentSpintax(email, 'preview');
-        const body = assembleBodySpintax(email);
+        const { subject, preview, body, variant } = renderForExport(email, lead, assignment, variantMode);
 
-        row.subject = replaceMergeFields(subject, lead);
-        row.preview = replaceMergeFields(preview, lead);
-        row.body = replaceMergeFields(body, lead);
+        row.subject = subject;
+        row.preview = preview;
+        row.body = body;
+        if (assigned) row.variant = variant;
       }
     }
 
@@ -173,14 +159,15 @@ export function exportToInstantly(
   });
 
   // Build headers
-  const headers = ['email', 'firstName', 'lastName', 'company', 'domain'];
+  const headers = ['email', 'firstName', 'lastName', 'company', 'domain', ...(assigned ? ['variant_id'] : [])];
   if (includeAllEmails) {
     campaign.sequence.forEach(email => {
       const prefix = `email${email.position}`;
       headers.push(`${prefix}_subject`, `${prefix}_preview`, `${prefix}_body`, `${prefix}_delay`);
+      if (assigned) headers.push(`${prefix}_variant`);
     });
   } else {
-    headers.push('subject', 'preview', 'body');
+    headers.push('subject', 'preview', 'body', ...(assigned ? ['variant'] : []));
   }
 
   const csv = generateCSV(rows, headers);
@@ -231,26 +218,28 @@ export function exportToJSON(leads: CampaignLead[], campaign: Campaign): ExportR
       position: email.position,
       label: email.label,
       delayDays: email.delayDays,
-      subject: {
-        variantA: email.components.find(c => c.type === 'subject')?.variantA || '',
-        variantB: email.components.find(c => c.type === 'subject')?.variantB || '',
-      },
-      preview: {
-        variantA: email.components.find(c => c.type === 'preview')?.variantA || '',
-        variantB: email.components.find(c => c.type === 'preview')?.variantB || '',
-      },
-      body: {
-        variantA: assembleBody(email, 'A'),
-        variantB: assembleBody(email, 'B'),
-      },
+      components: email.components.map(component => ({
+        type: component.type,
+        variants: component.variants.map((variant, index) => ({
+          label: variantLabel(index),
+          text: variant.text,
+          weight: variantWeight(variant),
+          ...(variant.angle ? { angle: variant.angle } : {}),
+        })),
+      })),
+      bodies: Array.from({ length: emailVariantCount(email) }, (_, index) => ({
+        label: variantLabel(index),
+        body: assembleBody(email, index),
+      })),
     })),
     leads: leads.map(lead => ({
       email: lead.email,
-      firstName: lead.extraFields?.firstName || lead.extraFields?.first_name,
-      lastName: lead.extraFields?.lastName || lead.extraFields?.last_name,
+      firstName: resolveMergeField(lead, 'firstName') || undefined,
+      lastName: resolveMergeField(lead, 'lastName') || undefined,
       company: lead.company,
       domain: lead.website,
       hook: lead.hook,
+      emails: renderLeadEmails(lead, campaign),
     })),
   };
 
@@ -261,6 +250,17 @@ export function exportToJSON(leads: CampaignLead[], campaign: Campaign): ExportR
   };
 }
 
+/**
+ * The assignment manifest as its own file, to keep with the campaign's results
+ */
+export function exportVariantManifest(manifest: VariantManifest, campaign: Campaign): ExportResult {
+  return {
+    filename: `${campaign.name.replace(/\s+/g, '_')}_variant_manifest.json`,
+    content: JSON.stringify({ campaign: { id: campaign.id, name: campaign.name }, ...manifest }, null, 2),
+    mimeType: 'application/json',
+  };
+}
+
 /**
  * Download helper - triggers browser download
  */
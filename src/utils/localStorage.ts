@@ -3,6 +3,7 @@
  */
 
 import type { KnowledgeBase, Campaign } from '../agent/types';
+import { normalizeSequence } from '../agent/sequence';
 
 const KNOWLEDGE_BASE_KEY = 'innov8ai_knowledge_bases';
 const CAMPAIGNS_KEY = 'innov8ai_campaigns';
@@ -83,7 +84,8 @@ export function getCampaigns(): Campaign[] {
   try {
     const stored = localStorage.getItem(CAMPAIGNS_KEY);
     if (!stored) return [];
-    return JSON.parse(stored) as Campaign[];
+    // Older campaigns stored two fixed variants per component
+    return (JSON.parse(stored) as Campaign[]).map(campaign => ({ ...campaign, sequence: normalizeSequence(campaign.sequence) }));
   } catch (error) {
     console.error('Error loading campaigns:', error);
     return [];
@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Campaign, CampaignLead } from '../agent/types';
+import { customMergeFields, listMergeFields, renderTemplate, resolveMergeField, toSpintax } from './mergeFields';
+import { findUnresolvedFields } from './instantlyExport';
+
+const lead = {
+  website: 'acme.com',
+  company: 'Acme Widgets',
+  name: 'jane doe',
+  email: 'jane@acme.com',
+  enrichmentStatus: 'completed',
+  extraFields: { 'Similar_Company': 'Globex', 'First Name': '', city: ' Leeds ' },
+  hook: { variantA: 'Saw your launch', variantB: 'Loved the blog' },
+  companyProfile: { industry: 'Manufacturing', socialLinks: ['https://linkedin.com/company/acme'], phoneNumbers: [], techSignals: [], keyPeople: [] },
+} as CampaignLead;
+
+test('CSV columns win, in any spelling, and blank columns fall through to what enrichment found', () => {
+  assert.equal(resolveMergeField(lead, 'similarCompany'), 'Globex');
+  assert.equal(resolveMergeField(lead, 'similar company'), 'Globex');
+  assert.equal(resolveMergeField(lead, 'City'), 'Leeds');
+  assert.equal(resolveMergeField(lead, 'first_name'), 'jane');
+  assert.equal(resolveMergeField(lead, 'industry'), 'Manufacturing');
+  assert.equal(resolveMergeField(lead, 'linkedin'), 'https://linkedin.com/company/acme');
+  assert.equal(resolveMergeField(lead, 'revenue'), '');
+});
+
+test('{{hook}} follows the variant when one is given, and is spintax otherwise', () => {
+  assert.equal(resolveMergeField(lead, 'hook', 0), 'Saw your launch');
+  assert.equal(resolveMergeField(lead, 'hook', 3), 'Loved the blog');
+  assert.equal(resolveMergeField(lead, 'hook'), '{Saw your launch|Loved the blog}');
+});
+
+test('filters apply to the value, in order, and aliases are accepted', () => {
+  assert.equal(renderTemplate('Hi {{firstName|capitalize}}', lead).text, 'Hi Jane');
+  assert.equal(renderTemplate('{{name|title}} at {{company|upper}}', lead).text, 'Jane Doe at ACME WIDGETS');
+  assert.equal(renderTemplate('{{company | lower | first}}', lead).text, 'acme');
+  assert.equal(renderTemplate('{{company|truncate:7}}', lead).text, 'Acme');
+});
+
+test('a default is used as written when there is no value, and only then', () => {
+  assert.equal(renderTemplate('Hi {{revenue|there}}', lead).text, 'Hi there');
+  assert.equal(renderTemplate('Hi {{revenue|upper|default:Friend}}', lead).text, 'Hi Friend');
+  assert.equal(renderTemplate('In {{city|your area}}', lead).text, 'In Leeds');
+  assert.deepEqual(renderTemplate('{{revenue|}}{{city}}', lead), { text: 'Leeds', unresolved: [] });
+});
+
+test('fields with no value and no default are reported once and rendered empty', () => {
+  assert.deepEqual(renderTemplate('{{revenue}} and {{revenue}} from {{ceo}}', lead), { text: ' and  from ', unresolved: ['revenue', 'ceo'] });
+});
+
+test('merge fields are found inside spintax', () => {
+  assert.deepEqual(listMergeFields('{{{firstName}}, hi|Hello {{company|upper}}}').map(token => [token.field, token.filters.map(f => f.name)]),
+    [['firstName', []], ['company', ['upper']]]);
+});
+
+test('CSV columns beyond the built-in fields are offered once each', () => {
+  const other = { ...lead, extraFields: { similarCompany: 'Initech', Budget: '10k', company: 'Dup' } } as CampaignLead;
+  assert.deepEqual(customMergeFields([lead, other]), ['Similar_Company', 'city', 'Budget']);
+});
+
+test('spintax leaves out blanks, merges duplicates and repeats options by weight', () => {
+  assert.equal(toSpintax([]), '');
+  assert.equal(toSpintax(['Only', '']), 'Only');
+  assert.equal(toSpintax(['A', 'B']), '{A|B}');
+  assert.equal(toSpintax(['A', 'B'], [2, 1]), '{A|A|B}');
+  assert.equal(toSpintax(['A', 'B', 'A'], [1, 1, 1]), '{A|A|B}');
+  assert.equal(toSpintax(['A', 'B'], [4, 2]), '{A|A|B}');
+  assert.ok(toSpintax(['A', 'B'], [100, 1]).split('|').length <= 13);
+});
+
+test('the unresolved report lists each lead with fields left blank across every variant', () => {
+  const campaign = {
+    id: 'c1', name: 'Test', knowledgeBaseId: 'kb', createdAt: '', updatedAt: '',
+    sequence: [{
+      position: 1, label: 'Intro Email', delayDays: 0,
+      components: [
+        { type: 'subject', variants: [{ text: 'Hi {{firstName}}' }, { text: 'For {{ceo}}' }] },
+        { type: 'cta', variants: [{ text: 'Chat about {{revenue|growth}}?' }] },
+      ],
+    }],
+  } as Campaign;
+  const nameless = { ...lead, website: 'nameless.com', name: undefined, extraFields: {} } as CampaignLead;
+
+  assert.deepEqual(findUnresolvedFields([lead, nameless], campaign).map(report => [report.lead.website, report.fields]),
+    [['acme.com', ['ceo']], ['nameless.com', ['firstName', 'ceo']]]);
+});
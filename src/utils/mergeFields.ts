@@ -0,0 +1,209 @@
+/**
+ * Merge-field engine for campaign templates
+ * {{field}} resolves any CSV column (extraFields) or enriched attribute; after the name,
+ * each "|" part is a filter ({{company|upper}}, {{offering|truncate:40}}) or, if it isn't one,
+ * the default used when the lead has no value ({{firstName|there}})
+ */
+
+import type { CampaignLead, EnrichedLead } from '../agent/types';
+
+export interface MergeFieldToken {
+  raw: string;  // The whole {{...}} as written
+  field: string;
+  filters: Array<{ name: string; arg?: string }>;
+  fallback?: string;
+}
+
+export interface RenderedTemplate {
+  text: string;
+  unresolved: string[];  // Fields with no value and no default - rendered as empty text
+}
+
+// {{ ... }} with no braces inside, so "{{{firstName}}, hi|...}" spintax still finds {{firstName}}
+const MERGE_FIELD_PATTERN = /\{\{([^{}]+?)\}\}/g;
+
+export const MERGE_FILTERS: Record<string, (value: string, arg?: string) => string> = {
+  capitalise: value => value.charAt(0).toUpperCase() + value.slice(1),
+  upper: value => value.toUpperCase(),
+  lower: value => value.toLowerCase(),
+  title: value => value.toLowerCase().replace(/(^|[\s-])(\p{L})/gu, (_, sep: string, ch: string) => sep + ch.toUpperCase()),
+  first: value => value.trim().split(/\s+/)[0] || '',
+  trim: value => value.trim(),
+  // Cut at a word boundary so "truncate:30" never leaves half a word
+  truncate: (value, arg) => {
+    const max = parseInt(arg || '', 10);
+    if (!Number.isFinite(max) || value.length <= max) return value;
+    const cut = value.slice(0, max);
+    const lastSpace = cut.lastIndexOf(' ');
+    return (lastSpace > max / 2 ? cut.slice(0, lastSpace) : cut).replace(/[\s,;:.-]+$/, '');
+  },
+};
+
+const FILTER_ALIASES: Record<string, string> = {
+  capitalize: 'capitalise',
+  uppercase: 'upper',
+  lowercase: 'lower',
+  titlecase: 'title',
+};
+
+/**
+ * Field names compare without case or punctuation: similar_company, Similar Company and similarCompany are one field
+ */
+export function mergeFieldKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function splitName(name: string | undefined): { first: string; last: string } {
+  const parts = (name || '').trim().split(/\s+/).filter(Boolean);
+  return { first: parts[0] || '', last: parts.slice(1).join(' ') };
+}
+
+const MAX_SPINTAX_OPTIONS = 12;
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+/**
+ * Spintax format: {Variant A|Variant B|Variant C}
+ * Spintax picks options evenly, so weights are expressed by repeating an option -
+ * weights 2 and 1 give {A|A|B}. Weights are reduced to small whole numbers first.
+ */
+export function toSpintax(options: string[], weights?: number[]): string {
+  const merged = new Map<string, number>();
+  options.forEach((option, index) => {
+    if (!option) return;
+    const weight = weights?.[index] ?? 1;
+    merged.set(option, (merged.get(option) || 0) + (weight > 0 ? weight : 1));
+  });
+
+  const entries = [...merged.entries()];
+  if (entries.length === 0) return '';
+  if (entries.length === 1) return entries[0][0];
+
+  // Scale to whole numbers, keep every option at least once, and scale down long lists to about the cap
+  const smallest = Math.min(...entries.map(([, weight]) => weight));
+  let counts = entries.map(([, weight]) => Math.max(1, Math.round(weight / smallest)));
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (total > MAX_SPINTAX_OPTIONS) {
+    counts = counts.map(count => Math.max(1, Math.round((count / total) * MAX_SPINTAX_OPTIONS)));
+  }
+  const divisor = counts.reduce(gcd);
+
+  return `{${entries.flatMap(([option], index) => Array(counts[index] / divisor).fill(option)).join('|')}}`;
+}
+
+/**
+ * Values the pipeline knows about a lead, by mergeFieldKey
+ * When a variant index is given, {{hook}} resolves to one of the lead's two hooks
+ * (even variants get the first, odd the second) instead of spintax
+ */
+function enrichedFields(lead: CampaignLead, variant?: number): Record<string, string | undefined> {
+  const name = splitName(lead.contact?.name || lead.name);
+  const profile = lead.companyProfile;
+  const hook = lead.hook
+    ? (variant !== undefined
+      ? (variant % 2 === 0 ? lead.hook.variantA : lead.hook.variantB || lead.hook.variantA)
+      : toSpintax([lead.hook.variantA, lead.hook.variantB]))
+    : undefined;
+
+  return {
+    firstname: name.first,
+    lastname: name.last,
+    name: lead.contact?.name || lead.name,
+    company: lead.company,
+    domain: lead.website || lead.domainValidation?.domain,
+    website: lead.website,
+    email: lead.email,
+    title: lead.contact?.title,
+    jobtitle: lead.contact?.title,
+    icebreaker: lead.icebreaker,
+    hook,
+    industry: profile?.industry,
+    offering: profile?.offering,
+    location: profile?.location,
+    size: profile?.sizeHint,
+    phone: profile?.phoneNumbers[0],
+    linkedin: lead.contact?.linkedinUrl || profile?.socialLinks.find(url => /linkedin\.com/i.test(url)),
+  };
+}
+
+/**
+ * A lead's value for a field: its own CSV column first, then what enrichment found
+ */
+export function resolveMergeField(lead: CampaignLead, field: string, variant?: number): string {
+  const key = mergeFieldKey(field);
+  const fromCsv = Object.entries(lead.extraFields || {}).find(([column, value]) => mergeFieldKey(column) === key && value?.trim());
+  if (fromCsv) return fromCsv[1].trim();
+
+  // first_name style columns normalise to firstname, so they're covered above
+  return (enrichedFields(lead, variant)[key] || '').trim();
+}
+
+export function parseMergeField(raw: string, inner: string): MergeFieldToken {
+  const [field, ...parts] = inner.split('|').map(part => part.trim());
+  const token: MergeFieldToken = { raw, field, filters: [] };
+
+  for (const part of parts) {
+    const [rawName, ...argParts] = part.split(':');
+    const name = FILTER_ALIASES[rawName.trim().toLowerCase()] || rawName.trim().toLowerCase();
+    const arg = argParts.length > 0 ? argParts.join(':').trim() : undefined;
+
+    if (name === 'default') token.fallback = arg ?? '';
+    else if (MERGE_FILTERS[name]) token.filters.push({ name, arg });
+    else token.fallback = part;
+  }
+
+  return token;
+}
+
+/**
+ * Every merge field a template uses
+ */
+export function listMergeFields(template: string): MergeFieldToken[] {
+  return [...template.matchAll(MERGE_FIELD_PATTERN)].map(match => parseMergeField(match[0], match[1]));
+}
+
+/**
+ * Fill every {{field}} for one lead
+ * Filters apply to the lead's value; a default is used as written
+ */
+export function renderTemplate(template: string, lead: CampaignLead, variant?: number): RenderedTemplate {
+  const unresolved = new Set<string>();
+
+  const text = template.replace(MERGE_FIELD_PATTERN, (raw, inner: string) => {
+    const token = parseMergeField(raw, inner);
+    const value = resolveMergeField(lead, token.field, variant);
+
+    if (!value) {
+      if (token.fallback === undefined) unresolved.add(token.field);
+      return token.fallback ?? '';
+    }
+
+    return token.filters.reduce((result, filter) => MERGE_FILTERS[filter.name](result, filter.arg), value);
+  });
+
+  return { text, unresolved: [...unresolved] };
+}
+
+export const BUILT_IN_MERGE_FIELDS = ['firstName', 'lastName', 'company', 'domain', 'email', 'title', 'hook', 'icebreaker', 'industry', 'location'];
+
+/**
+ * CSV columns these leads bring beyond the built-in fields, for the editor's help text
+ */
+export function customMergeFields(leads: EnrichedLead[]): string[] {
+  const seen = new Set(BUILT_IN_MERGE_FIELDS.map(mergeFieldKey));
+  const columns: string[] = [];
+
+  for (const lead of leads) {
+    for (const column of Object.keys(lead.extraFields || {})) {
+      const key = mergeFieldKey(column);
+      if (key && !seen.has(key)) {
+        seen.add(key);
+        columns.push(column);
+      }
+    }
+  }
+
+  return columns;
+}
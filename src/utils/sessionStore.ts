@@ -0,0 +1,136 @@
+/**
+ * IndexedDB storage for the in-progress lead session
+ * Crawled pages are far too large for localStorage, so leads and their
+ * dossiers are snapshotted here and offered back on the next startup
+ */
+
+import type { CampaignLead, EnrichmentConfig, LeadDossier } from '../agent/types';
+import type { AppStage } from '../types';
+
+const DB_NAME = 'innov8ai_sessions';
+const DB_VERSION = 1;
+const SESSION_STORE = 'session';
+const SCRAPED_CONTENT_STORE = 'scrapedContent';
+const CURRENT_SESSION_KEY = 'current';
+
+export interface LeadSession {
+  stage: AppStage;
+  leads: CampaignLead[];
+  selectedLeads: number[];
+  config: EnrichmentConfig;
+  knowledgeBaseId?: string;
+  campaignId?: string;
+  updatedAt: string;  // ISO string
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          db.createObjectStore(SESSION_STORE);
+        }
+        if (!db.objectStoreNames.contains(SCRAPED_CONTENT_STORE)) {
+          db.createObjectStore(SCRAPED_CONTENT_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+// Run a single request in its own transaction and resolve with its result
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = fn(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/**
+ * Session snapshot
+ */
+
+export async function saveSession(session: Omit<LeadSession, 'updatedAt'>): Promise<void> {
+  try {
+    const snapshot: LeadSession = { ...session, updatedAt: new Date().toISOString() };
+    await withStore(SESSION_STORE, 'readwrite', store => store.put(snapshot, CURRENT_SESSION_KEY));
+  } catch (error) {
+    console.error('Error saving session:', error);
+  }
+}
+
+export async function loadSession(): Promise<LeadSession | null> {
+  try {
+    const session = await withStore<LeadSession | undefined>(
+      SESSION_STORE,
+      'readonly',
+      store => store.get(CURRENT_SESSION_KEY)
+    );
+    return session && session.leads.length > 0 ? session : null;
+  } catch (error) {
+    console.error('Error loading session:', error);
+    return null;
+  }
+}
+
+export async function clearSession(): Promise<void> {
+  try {
+    await withStore(SESSION_STORE, 'readwrite', store => store.clear());
+    await withStore(SCRAPED_CONTENT_STORE, 'readwrite', store => store.clear());
+  } catch (error) {
+    console.error('Error clearing session:', error);
+  }
+}
+
+/**
+ * Lead dossiers (written per lead as each crawl finishes, keyed by website)
+ */
+
+export async function saveDossier(dossier: LeadDossier): Promise<void> {
+  try {
+    await withStore(SCRAPED_CONTENT_STORE, 'readwrite', store => store.put(dossier, dossier.website));
+  } catch (error) {
+    console.error('Error saving dossier:', error);
+  }
+}
+
+export async function loadDossiers(): Promise<Map<string, LeadDossier>> {
+  const content = new Map<string, LeadDossier>();
+  try {
+    const db = await openDatabase();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(SCRAPED_CONTENT_STORE, 'readonly');
+      const request = tx.objectStore(SCRAPED_CONTENT_STORE).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          content.set(String(cursor.key), cursor.value as LeadDossier);
+          cursor.continue();
+        }
+      };
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } catch (error) {
+    console.error('Error loading dossiers:', error);
+  }
+  return content;
+}
@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Campaign, CampaignLead, VariantManifest } from '../agent/types';
+import { assignVariantsByHash, assignmentLookup } from './variantAssignment';
+
+const campaign: Campaign = {
+  id: 'campaign-1',
+  name: 'Test',
+  knowledgeBaseId: 'kb-1',
+  sequence: [{
+    position: 1,
+    label: 'Intro Email',
+    delayDays: 0,
+    components: [
+      { type: 'subject', variants: [{ text: 'Quick question', weight: 2 }, { text: 'Idea for you' }] },
+      { type: 'cta', variants: [{ text: 'Worth a chat?' }, { text: 'Open to it?' }, { text: 'Any interest?' }] },
+    ],
+  }],
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+const leadsFor = (emails: string[]) => emails.map(email => ({ email }) as CampaignLead);
+const emails = Array.from({ length: 1000 }, (_, i) => `lead${i}@example.com`);
+
+const reassigned = (before: VariantManifest, after: VariantManifest, among: string[]) => {
+  const was = assignmentLookup(before);
+  const now = assignmentLookup(after);
+  return among.filter(email => was(email)?.variantId !== now(email)?.variantId).length;
+};
+
+test('the split follows the weights across the list', () => {
+  const manifest = assignVariantsByHash(leadsFor(emails), campaign);
+  const [subject, cta] = manifest.steps[0].components;
+  assert.deepEqual(subject.variants.map(v => v.leads), [667, 333]);
+  assert.deepEqual(cta.variants.map(v => v.leads), [334, 333, 333]);
+});
+
+test('re-exporting a grown or trimmed list keeps everyone on their variant', () => {
+  const first = assignVariantsByHash(leadsFor(emails), campaign);
+
+  const grown = assignVariantsByHash(leadsFor([...emails, 'new@example.com']), campaign, first);
+  assert.equal(grown.seed, first.seed);
+  assert.equal(reassigned(first, grown, emails), 0);
+  assert.ok(assignmentLookup(grown)('new@example.com'));
+
+  const trimmed = assignVariantsByHash(leadsFor(emails.slice(1)), campaign, first);
+  assert.equal(reassigned(first, trimmed, emails), 0);  // lead0 is kept so its replies still join back
+  assert.equal(trimmed.steps[0].components[0].variants.reduce((sum, v) => sum + v.leads, 0), 999);
+});
+
+test('a lead whose variant was emptied is dealt a sendable one', () => {
+  const first = assignVariantsByHash(leadsFor(emails), campaign);
+  const edited: Campaign = {
+    ...campaign,
+    sequence: [{ ...campaign.sequence[0], components: [campaign.sequence[0].components[0], { type: 'cta', variants: [{ text: 'Worth a chat?' }, { text: '' }, { text: 'Any interest?' }] }] }],
+  };
+
+  const next = assignVariantsByHash(leadsFor(emails), edited, first);
+  assert.ok(next.assignments.every(a => a.steps[0].selection.cta !== 1));
+  const kept = emails.filter(email => assignmentLookup(first)(email)?.steps[0].selection.cta !== 1);
+  assert.equal(reassigned(first, next, kept), 0);
+});
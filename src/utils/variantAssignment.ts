@@ -0,0 +1,127 @@
+/**
+ * Deterministic split-test assignment
+ * Each lead's variants come from a seeded hash of their email address rather than chance or
+ * the sending tool, so the same list and seed always give the same assignment, and the
+ * manifest records who got what for joining replies back to the copy that was sent
+ */
+
+import type { Campaign, CampaignLead, StepVariantAssignment, VariantAssignment, VariantManifest } from '../agent/types';
+import { variantLabel, variantWeight } from '../agent/sequence';
+import { sendableVariants } from './emailRenderer';
+
+/**
+ * FNV-1a, 32-bit - small, fast and identical in every browser
+ */
+export function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Option for the next lead: the one furthest behind its weighted share once this lead is
+ * counted, so dealing in turn keeps the split as even as the weights allow
+ * (weights 2 and 1 from nothing give 0, 1, 0, 0, 1, 0...)
+ */
+function nextWeightedSlot(weights: number[], counts: number[]): number {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  const dealt = counts.reduce((sum, count) => sum + count, 0) + 1;
+  const deficits = weights.map((weight, i) => (dealt * weight) / total - counts[i]);
+  return deficits.reduce((best, deficit, i) => (deficit > deficits[best] ? i : best), 0);
+}
+
+function normaliseEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * variant_id for a lead: each step's split-tested components and the variant sent,
+ * e.g. "e1:subject=B,hook=A;e2:cta=C"
+ */
+export function formatVariantId(steps: StepVariantAssignment[]): string {
+  return steps
+    .filter(step => Object.keys(step.selection).length > 0)
+    .map(step => `e${step.position}:${Object.entries(step.selection).map(([type, index]) => `${type}=${variantLabel(index ?? 0)}`).join(',')}`)
+    .join(';');
+}
+
+/**
+ * Assign every lead a variant of each split-tested component
+ * Leads in the previous manifest keep the variant they were given while it's still sendable,
+ * so re-exporting a grown or trimmed list never moves anyone. New leads are ordered by a hash
+ * of seed, step, component and email, then dealt whichever variant is furthest behind its
+ * weight - so the split still matches the weights across the list, not just on average.
+ * Earlier leads missing from this list stay in the assignments so their replies still join back.
+ * Leads without an email can't be hashed or joined back, so they're left out.
+ */
+export function assignVariantsByHash(leads: CampaignLead[], campaign: Campaign, previous?: VariantManifest): VariantManifest {
+  const seed = previous?.seed ?? campaign.id;
+  const earlier = new Map((previous?.assignments || []).map(assignment => [assignment.email, assignment]));
+  const emails = [...new Set(leads.flatMap(lead => (lead.email ? [normaliseEmail(lead.email)] : [])))];
+  const selections = new Map(emails.map(email => [email, campaign.sequence.map((step): StepVariantAssignment => ({ position: step.position, selection: {} }))]));
+
+  const steps: VariantManifest['steps'] = campaign.sequence.map((email, stepIndex) => {
+    const components: VariantManifest['steps'][number]['components'] = [];
+
+    for (const component of email.components) {
+      const indexes = sendableVariants(component);
+      if (indexes.length < 2) continue;  // Nothing to test - the renderer sends the one there is
+
+      const weights = indexes.map(index => variantWeight(component.variants[index]));
+      const counts = indexes.map(() => 0);
+      const keptSlot = (address: string) => {
+        const kept = earlier.get(address)?.steps.find(step => step.position === email.position)?.selection[component.type];
+        return kept === undefined ? -1 : indexes.indexOf(kept);
+      };
+      const assign = (address: string, slot: number) => {
+        selections.get(address)![stepIndex].selection[component.type] = indexes[slot];
+        counts[slot]++;
+      };
+
+      const fresh: string[] = [];
+      for (const address of emails) {
+        const slot = keptSlot(address);
+        if (slot >= 0) assign(address, slot);
+        else fresh.push(address);
+      }
+
+      fresh
+        .map(address => ({ address, hash: hashString(`${seed}:${email.position}:${component.type}:${address}`) }))
+        .sort((a, b) => a.hash - b.hash || a.address.localeCompare(b.address))
+        .forEach(({ address }) => assign(address, nextWeightedSlot(weights, counts)));
+
+      components.push({
+        type: component.type,
+        variants: indexes.map((index, slot) => ({
+          label: variantLabel(index),
+          text: component.variants[index].text,
+          ...(component.variants[index].angle ? { angle: component.variants[index].angle } : {}),
+          weight: weights[slot],
+          leads: counts[slot],
+        })),
+      });
+    }
+
+    return { position: email.position, label: email.label, components };
+  });
+
+  const assignments: VariantAssignment[] = emails.map(email => {
+    const leadSteps = selections.get(email)!;
+    return { email, variantId: formatVariantId(leadSteps), steps: leadSteps };
+  });
+  const current = new Set(emails);
+  const departed = [...earlier.values()].filter(assignment => !current.has(assignment.email));
+
+  return { seed, createdAt: new Date().toISOString(), steps, assignments: [...assignments, ...departed] };
+}
+
+/**
+ * Look up leads' assignments by email, in any case
+ */
+export function assignmentLookup(manifest: VariantManifest): (email: string | undefined) => VariantAssignment | undefined {
+  const byEmail = new Map(manifest.assignments.map(assignment => [assignment.email, assignment]));
+  return email => (email ? byEmail.get(normaliseEmail(email)) : undefined);
+}
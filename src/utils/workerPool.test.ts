@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createLimiter, runPool } from './workerPool';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+test('results keep item order while at most `concurrency` items run at once', async () => {
+  let active = 0;
+  let peak = 0;
+  const results = await runPool([30, 5, 20, 1, 10], 2, async (ms, index) => {
+    peak = Math.max(peak, ++active);
+    await sleep(ms);
+    active--;
+    return index;
+  });
+
+  assert.deepEqual(results, [0, 1, 2, 3, 4]);
+  assert.equal(peak, 2);
+});
+
+test('an abort stops new items and returns only the started ones', async () => {
+  const controller = new AbortController();
+  const results = await runPool([1, 2, 3, 4, 5], 1, async item => {
+    if (item === 2) controller.abort();
+    return item;
+  }, controller.signal);
+
+  assert.deepEqual(results, [1, 2]);
+});
+
+test('a failing item stops new items, and the error surfaces after in-flight items settle', async () => {
+  const started: number[] = [];
+  let slowFinished = false;
+
+  await assert.rejects(
+    runPool([0, 1, 2, 3, 4, 5], 2, async item => {
+      started.push(item);
+      if (item === 0) {
+        await sleep(30);
+        slowFinished = true;
+        return item;
+      }
+      throw new Error(`item ${item} failed`);
+    }),
+    /item 1 failed/
+  );
+
+  assert.deepEqual(started, [0, 1]);
+  assert.equal(slowFinished, true);
+});
+
+test('a limiter queues tasks beyond its concurrency and can be widened', async () => {
+  const limiter = createLimiter(1);
+  let active = 0;
+  let peak = 0;
+  const task = async () => {
+    peak = Math.max(peak, ++active);
+    await sleep(5);
+    active--;
+  };
+
+  await Promise.all([limiter.run(task), limiter.run(task), limiter.run(task)]);
+  assert.equal(peak, 1);
+
+  limiter.setConcurrency(3);
+  await Promise.all([limiter.run(task), limiter.run(task), limiter.run(task)]);
+  assert.equal(peak, 3);
+});
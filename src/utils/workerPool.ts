@@ -0,0 +1,84 @@
+/**
+ * Concurrency utilities for the enrichment pipeline
+ * A sliding-window worker pool for per-lead work, and limiters that cap
+ * in-flight requests to a single upstream API (Firecrawl, Anthropic)
+ */
+
+export interface Limiter {
+  run: <T>(task: () => Promise<T>) => Promise<T>;
+  setConcurrency: (concurrency: number) => void;
+}
+
+/**
+ * Create a limiter that runs at most `concurrency` tasks at once, queueing the rest
+ */
+export function createLimiter(concurrency: number): Limiter {
+  let limit = Math.max(1, concurrency);
+  let active = 0;
+  const queue: Array<() => void> = [];
+
+  const next = () => {
+    while (active < limit && queue.length > 0) {
+      active++;
+      queue.shift()!();
+    }
+  };
+
+  const run = <T>(task: () => Promise<T>): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      queue.push(() => {
+        task()
+          .then(resolve, reject)
+          .finally(() => {
+            active--;
+            next();
+          });
+      });
+      next();
+    });
+
+  const setConcurrency = (concurrency: number) => {
+    limit = Math.max(1, concurrency);
+    next();
+  };
+
+  return { run, setConcurrency };
+}
+
+/**
+ * Process items with a sliding window of `concurrency` workers
+ * A new item starts as soon as any in-flight item finishes, so one slow
+ * item never stalls the others. Results keep the order of `items`.
+ * Once `signal` aborts no new items are started; in-flight items are awaited
+ * and only the results of started items are returned.
+ * If a worker throws, no new items are started either, and the first error is
+ * rethrown once every in-flight item has settled.
+ */
+export async function runPool<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+  let failed = false;
+
+  const workerCount = Math.min(Math.max(1, concurrency), items.length);
+  const workers = Array.from({ length: workerCount }, async () => {
+    while (nextIndex < items.length && !signal?.aborted && !failed) {
+      const index = nextIndex++;
+      try {
+        results[index] = await worker(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  });
+
+  const settled = await Promise.allSettled(workers);
+  const rejection = settled.find((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+  if (rejection) throw rejection.reason;
+  return results.slice(0, nextIndex);
+}
@@ -12,5 +12,9 @@ export default defineConfig({
   server: {
     port: 4052,
     open: true,
+    // Local API server (npm run server) - same handlers as the Vercel functions
+    proxy: {
+      '/api': 'http://localhost:3001',
+    },
   },
 })